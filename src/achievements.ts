@@ -0,0 +1,151 @@
+import type { EventBus, GameEvents } from "./events";
+import { countOccupied, getAllValidPositions } from "./game";
+import { describeClear } from "./stats";
+
+const ACHIEVEMENTS_KEY = "atomicon_achievements";
+
+/** Game events reduced to what the catalog measures */
+export type AchievementEvent =
+    /** A group was cleared; `jokers` counts the jokers inside it */
+    | { type: "clear"; size: number; combo: number; jokers: number; score: number }
+    /** A move was made */
+    | { type: "turn"; moves: number }
+    /** The game ended; `occupancy` is the filled share of the board */
+    | { type: "gameOver"; moves: number; score: number; occupancy: number };
+
+export interface Achievement {
+    id: string;
+    name: string;
+    description: string;
+    /** Progress needed to unlock */
+    target: number;
+    /** Progress adds up across events instead of keeping the best value */
+    cumulative?: boolean;
+    /** Progress value reached by `event`, or null when the event does not concern it */
+    measure: (event: AchievementEvent) => number | null;
+}
+
+export interface AchievementState {
+    progress: number;
+    /** Unlock time (epoch ms); null while locked */
+    unlocked: number | null;
+}
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+    {
+        id: "big-clear",
+        name: "Supernova",
+        description: "Clear 8 or more cells at once",
+        target: 8,
+        measure: (event) => (event.type === "clear" ? event.size : null),
+    },
+    {
+        id: "combo-4",
+        name: "Chain reaction",
+        description: "Reach a combo of x4",
+        target: 4,
+        measure: (event) => (event.type === "clear" ? event.combo : null),
+    },
+    {
+        id: "double-joker",
+        name: "Wild pair",
+        description: "Clear a group containing two jokers",
+        target: 2,
+        measure: (event) => (event.type === "clear" ? event.jokers : null),
+    },
+    {
+        id: "survivor",
+        name: "Survivor",
+        description: "Survive 100 moves in one game",
+        target: 100,
+        measure: (event) => (event.type === "turn" ? event.moves : null),
+    },
+    {
+        id: "clean-finish",
+        name: "Clean sweep",
+        description: "Finish a game with the board under 20% occupied",
+        target: 1,
+        measure: (event) => (event.type === "gameOver" ? (event.occupancy < 0.2 ? 1 : 0) : null),
+    },
+    {
+        id: "high-score",
+        name: "Four figures",
+        description: "Score 1000 points in one game",
+        target: 1000,
+        measure: (event) => (event.type === "clear" || event.type === "gameOver" ? event.score : null),
+    },
+    {
+        id: "regular",
+        name: "Regular",
+        description: "Finish 25 games",
+        target: 25,
+        cumulative: true,
+        measure: (event) => (event.type === "gameOver" ? 1 : null),
+    },
+];
+
+export function getAchievementStates(): Record<string, AchievementState> {
+    const states: Record<string, AchievementState> = {};
+    let parsed: unknown = null;
+    try {
+        parsed = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) ?? "{}");
+    } catch {
+        // Corrupt data starts over
+    }
+    const raw = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+    for (const achievement of ACHIEVEMENTS) {
+        const item = raw[achievement.id] as Partial<AchievementState> | undefined;
+        const unlocked = Number(item?.unlocked);
+        states[achievement.id] = {
+            progress: Math.min(achievement.target, Math.max(0, Number(item?.progress) || 0)),
+            unlocked: Number.isFinite(unlocked) && unlocked > 0 ? unlocked : null,
+        };
+    }
+    return states;
+}
+
+/** Apply an event to every locked achievement; returns the ones it unlocked */
+export function evaluateAchievements(event: AchievementEvent): Achievement[] {
+    const states = getAchievementStates();
+    const unlocked: Achievement[] = [];
+    let changed = false;
+    for (const achievement of ACHIEVEMENTS) {
+        const state = states[achievement.id];
+        const value = achievement.measure(event);
+        if (state.unlocked !== null || value === null) continue;
+
+        const progress = Math.min(
+            achievement.target,
+            achievement.cumulative ? state.progress + value : Math.max(state.progress, value),
+        );
+        if (progress === state.progress) continue;
+        state.progress = progress;
+        changed = true;
+        if (progress >= achievement.target) {
+            state.unlocked = Date.now();
+            unlocked.push(achievement);
+        }
+    }
+    if (changed) localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(states));
+    return unlocked;
+}
+
+/** Evaluate the catalog against the bus while `isTracked` says the live game counts */
+export function subscribeAchievements(
+    events: EventBus<GameEvents>,
+    isTracked: () => boolean,
+    onUnlock: (achievement: Achievement) => void,
+) {
+    const evaluate = (event: AchievementEvent) => {
+        if (isTracked()) evaluateAchievements(event).forEach(onUnlock);
+    };
+    events.on("cleared", ({ clear, grid, score }) => {
+        const { size, combo, jokers } = describeClear(clear, grid);
+        evaluate({ type: "clear", size, combo, jokers, score });
+    });
+    events.on("moveStarted", ({ moves }) => evaluate({ type: "turn", moves }));
+    events.on("gameOver", ({ rules, grid, score, moves }) => {
+        const occupancy = countOccupied(grid, rules) / getAllValidPositions(rules).length;
+        evaluate({ type: "gameOver", moves, score, occupancy });
+    });
+}
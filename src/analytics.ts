@@ -0,0 +1,50 @@
+import { GAME_EVENT_NAMES, type EventBus, type GameEvents } from "./events";
+
+/** Local usage counters; nothing leaves the browser */
+const ANALYTICS_KEY = "atomicon_analytics";
+
+export interface AnalyticsData {
+    /** Event name → times published */
+    events: Record<string, number>;
+    /** Game mode → games started, replays excluded */
+    modes: Record<string, number>;
+    /** Rejection reason → rejected moves */
+    rejections: Record<string, number>;
+}
+
+function toCounts(raw: unknown): Record<string, number> {
+    const counts: Record<string, number> = {};
+    if (!raw || typeof raw !== "object") return counts;
+    for (const [key, value] of Object.entries(raw)) {
+        const count = Number(value);
+        if (Number.isFinite(count) && count > 0) counts[key] = count;
+    }
+    return counts;
+}
+
+export function getAnalytics(): AnalyticsData {
+    try {
+        const raw = JSON.parse(localStorage.getItem(ANALYTICS_KEY) ?? "{}") as Record<string, unknown> | null;
+        return { events: toCounts(raw?.events), modes: toCounts(raw?.modes), rejections: toCounts(raw?.rejections) };
+    } catch {
+        return { events: {}, modes: {}, rejections: {} };
+    }
+}
+
+/** Count every event; the totals are written at game boundaries and when the page is hidden */
+export function subscribeAnalytics(events: EventBus<GameEvents>) {
+    const data = getAnalytics();
+    const count = (table: Record<string, number>, key: string) => {
+        table[key] = (table[key] ?? 0) + 1;
+    };
+    const store = () => localStorage.setItem(ANALYTICS_KEY, JSON.stringify(data));
+
+    for (const name of GAME_EVENT_NAMES) events.on(name, () => count(data.events, name));
+    events.on("moveRejected", ({ reason }) => count(data.rejections, reason));
+    events.on("gameStarted", ({ mode, replay }) => {
+        if (!replay) count(data.modes, mode);
+        store();
+    });
+    events.on("gameOver", store);
+    window.addEventListener("pagehide", store);
+}
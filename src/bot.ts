@@ -0,0 +1,187 @@
+import type { GameEngine } from "./engine";
+import { evaluateMoves, findBestMove, type Move } from "./evaluator";
+import {
+    checkLines,
+    cloneGrid,
+    getEmptyCells,
+    hasAnyMove,
+    moveCell,
+    removeMatches,
+    spawnCells,
+    type CellColor,
+    type Grid,
+    type RuleSet,
+} from "./game";
+import { Rng } from "./random";
+
+/** What a bot may see: the board and the preview queue, nothing of the game's RNG */
+export interface BotView {
+    rules: RuleSet;
+    grid: Grid;
+    nextColors: CellColor[];
+    /** How many preview colors the next spawn will place */
+    spawnCount: number;
+}
+
+export interface Bot {
+    readonly name: BotName;
+    chooseMove(view: BotView): Move | null;
+}
+
+export type BotName = "greedy" | "lookahead" | "montecarlo";
+
+export function getBotView(engine: GameEngine): BotView {
+    return {
+        rules: engine.rules,
+        grid: engine.state.grid,
+        nextColors: engine.state.nextColors,
+        spawnCount: engine.getSpawnCount(),
+    };
+}
+
+/** Board after a move and its clear, if any */
+function simulateMove(grid: Grid, move: Move, rules: RuleSet): { grid: Grid; score: number; cleared: boolean } {
+    const after = cloneGrid(grid);
+    moveCell(after, move.from, move.to);
+    const { toRemove, score } = checkLines(after, rules);
+    removeMatches(after, toRemove, rules);
+    return { grid: after, score, cleared: toRemove.size > 0 };
+}
+
+// ─── Strategies ──────────────────────────────────────────────────────────────
+
+/** Plays the evaluator's top move */
+export class GreedyBot implements Bot {
+    readonly name = "greedy";
+
+    chooseMove(view: BotView): Move | null {
+        return findBestMove(view.grid, view.rules);
+    }
+}
+
+/** Free space and chain points left after a spawn; a board with no move left has lost */
+function scoreBoard(grid: Grid, chainScore: number, rules: RuleSet): number {
+    return chainScore * 10 + getEmptyCells(grid, rules).length * 2 - (hasAnyMove(grid, rules) ? 0 : 1000);
+}
+
+/**
+ * Two-ply search over the evaluator's best candidates. A candidate that clears
+ * nothing has the known preview colors placed after it in a few fixed ways,
+ * and the worst resulting board, chain clears included, is what counts. Only
+ * the best few candidates go on to look for their best follow-up move.
+ */
+export class LookaheadBot implements Bot {
+    readonly name = "lookahead";
+    private readonly beam: number;
+    private readonly placements: number;
+    private readonly followUps: number;
+
+    constructor(beam = 8, placements = 3, followUps = 4) {
+        this.beam = beam;
+        this.placements = placements;
+        this.followUps = followUps;
+    }
+
+    chooseMove(view: BotView): Move | null {
+        const { grid, rules } = view;
+        const spawnColors = view.nextColors.slice(0, view.spawnCount);
+        const ranked = evaluateMoves(grid, rules)
+            .slice(0, this.beam)
+            .map((candidate) => {
+                const outcome = this.worstSpawn(simulateMove(grid, candidate, rules), spawnColors, rules);
+                return { candidate, grid: outcome.grid, value: candidate.value + outcome.value };
+            })
+            .sort((a, b) => b.value - a.value);
+
+        let best: Move | null = null;
+        let bestValue = -Infinity;
+        for (const { candidate, grid: next, value } of ranked.slice(0, this.followUps)) {
+            const followUp = findBestMove(next, rules);
+            const total = value + (followUp ? followUp.value * 0.5 : -1000);
+            if (total > bestValue) {
+                bestValue = total;
+                best = candidate;
+            }
+        }
+        return best;
+    }
+
+    /** Lowest-scoring board over the fixed placements of `spawnColors`; a clearing move spawns nothing */
+    private worstSpawn(
+        after: { grid: Grid; cleared: boolean },
+        spawnColors: CellColor[],
+        rules: RuleSet,
+    ): { grid: Grid; value: number } {
+        if (after.cleared) return { grid: after.grid, value: scoreBoard(after.grid, 0, rules) };
+        let worst = { grid: after.grid, value: Infinity };
+        for (let i = 0; i < this.placements; i++) {
+            const grid = cloneGrid(after.grid);
+            // Seeded per placement so the same view always gets the same answer
+            spawnCells(grid, spawnColors, new Rng(i + 1), rules);
+            const chain = checkLines(grid, rules);
+            removeMatches(grid, chain.toRemove, rules);
+            const value = scoreBoard(grid, chain.score, rules);
+            if (value < worst.value) worst = { grid, value };
+        }
+        return worst;
+    }
+}
+
+/**
+ * Refines the evaluator's best candidates by sampling where the known preview
+ * colors could spawn, averaging chain points, free space left and whether the
+ * board ends up stuck.
+ */
+export class MonteCarloBot implements Bot {
+    readonly name = "montecarlo";
+    private readonly candidates: number;
+    private readonly samples: number;
+    private readonly rng: Rng;
+
+    constructor(candidates = 8, samples = 12, seed = 1) {
+        this.candidates = candidates;
+        this.samples = samples;
+        this.rng = new Rng(seed);
+    }
+
+    chooseMove(view: BotView): Move | null {
+        const { rules } = view;
+        const spawnColors = view.nextColors.slice(0, view.spawnCount);
+        let best: Move | null = null;
+        let bestValue = -Infinity;
+        for (const candidate of evaluateMoves(view.grid, rules).slice(0, this.candidates)) {
+            const after = simulateMove(view.grid, candidate, rules);
+            let total = 0;
+            for (let i = 0; i < this.samples; i++) {
+                const grid = cloneGrid(after.grid);
+                let chainScore = 0;
+                if (!after.cleared) {
+                    spawnCells(grid, spawnColors, this.rng, rules);
+                    const chain = checkLines(grid, rules);
+                    removeMatches(grid, chain.toRemove, rules);
+                    chainScore = chain.score;
+                }
+                total += scoreBoard(grid, chainScore, rules);
+            }
+            const value = candidate.value + total / this.samples;
+            if (value > bestValue) {
+                bestValue = value;
+                best = candidate;
+            }
+        }
+        return best;
+    }
+}
+
+export const BOT_NAMES: readonly BotName[] = ["greedy", "lookahead", "montecarlo"];
+
+export function createBot(name: BotName): Bot {
+    switch (name) {
+        case "greedy":
+            return new GreedyBot();
+        case "lookahead":
+            return new LookaheadBot();
+        case "montecarlo":
+            return new MonteCarloBot();
+    }
+}
@@ -0,0 +1,130 @@
+const AXIS_COLOR = "rgba(161, 190, 227, 0.3)";
+const LABEL_COLOR = "#7f97bb";
+const LINE_COLOR = "#7fefce";
+const FILL_COLOR = "rgba(127, 239, 206, 0.12)";
+const PADDING = { top: 12, right: 10, bottom: 22, left: 40 };
+
+export interface ChartBar {
+    label: string;
+    value: number;
+    /** Defaults to the accent color */
+    color?: string;
+}
+
+/** Match the backing store to the displayed size and return a cleared context in CSS pixels */
+function prepare(canvas: HTMLCanvasElement): { ctx: CanvasRenderingContext2D; width: number; height: number } {
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    const ctx = canvas.getContext("2d")!;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = "11px system-ui, sans-serif";
+    return { ctx, width, height };
+}
+
+/** Axes with the top value labelled; returns the plot area */
+function drawAxes(ctx: CanvasRenderingContext2D, width: number, height: number, max: number) {
+    const plot = {
+        x: PADDING.left,
+        y: PADDING.top,
+        w: width - PADDING.left - PADDING.right,
+        h: height - PADDING.top - PADDING.bottom,
+    };
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(plot.x, plot.y);
+    ctx.lineTo(plot.x, plot.y + plot.h);
+    ctx.lineTo(plot.x + plot.w, plot.y + plot.h);
+    ctx.stroke();
+
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    ctx.fillText(String(max), plot.x - 6, plot.y);
+    ctx.fillText("0", plot.x - 6, plot.y + plot.h);
+    return plot;
+}
+
+function drawEmpty(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("No data yet", width / 2, height / 2);
+}
+
+/** Values in order, oldest first, joined by a line with the area below filled */
+export function drawLineChart(canvas: HTMLCanvasElement, values: number[]) {
+    const { ctx, width, height } = prepare(canvas);
+    if (values.length === 0) {
+        drawEmpty(ctx, width, height);
+        return;
+    }
+
+    const max = Math.max(1, ...values);
+    const plot = drawAxes(ctx, width, height, max);
+    const step = values.length > 1 ? plot.w / (values.length - 1) : 0;
+    const points = values.map((value, i) => ({
+        x: plot.x + (values.length > 1 ? i * step : plot.w / 2),
+        y: plot.y + plot.h - (value / max) * plot.h,
+    }));
+
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, plot.y + plot.h);
+    for (const point of points) ctx.lineTo(point.x, point.y);
+    ctx.lineTo(points[points.length - 1].x, plot.y + plot.h);
+    ctx.closePath();
+    ctx.fillStyle = FILL_COLOR;
+    ctx.fill();
+
+    ctx.beginPath();
+    points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.strokeStyle = LINE_COLOR;
+    ctx.lineWidth = 2;
+    ctx.lineJoin = "round";
+    ctx.stroke();
+
+    // Dots only while they stay apart
+    if (step >= 6 || points.length === 1) {
+        ctx.fillStyle = LINE_COLOR;
+        for (const point of points) {
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, 2.5, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    }
+
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.textBaseline = "top";
+    ctx.textAlign = "left";
+    ctx.fillText("1", plot.x, plot.y + plot.h + 6);
+    ctx.textAlign = "right";
+    ctx.fillText(String(values.length), plot.x + plot.w, plot.y + plot.h + 6);
+}
+
+/** One labelled bar per entry */
+export function drawBarChart(canvas: HTMLCanvasElement, bars: ChartBar[]) {
+    const { ctx, width, height } = prepare(canvas);
+    if (bars.length === 0) {
+        drawEmpty(ctx, width, height);
+        return;
+    }
+
+    const max = Math.max(1, ...bars.map((bar) => bar.value));
+    const plot = drawAxes(ctx, width, height, max);
+    const slot = plot.w / bars.length;
+    const barWidth = Math.max(2, slot * 0.7);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    bars.forEach((bar, i) => {
+        const x = plot.x + i * slot + (slot - barWidth) / 2;
+        const h = (bar.value / max) * plot.h;
+        ctx.fillStyle = bar.color ?? LINE_COLOR;
+        ctx.fillRect(x, plot.y + plot.h - h, barWidth, h);
+        ctx.fillStyle = LABEL_COLOR;
+        ctx.fillText(bar.label, x + barWidth / 2, plot.y + plot.h + 6);
+    });
+}
@@ -0,0 +1,87 @@
+/** Days kept in the daily history */
+export const DAILY_HISTORY_SIZE = 60;
+
+const HISTORY_KEY = "atomicon_daily";
+
+export interface DailyResult {
+    /** Local calendar day, YYYY-MM-DD */
+    day: string;
+    score: number;
+    moves: number;
+    /** When the result was last updated (epoch ms) */
+    date: number;
+    /** False while the day's attempt is still being played */
+    finished: boolean;
+}
+
+/** Local calendar day of `date` as YYYY-MM-DD */
+export function getDayKey(date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function previousDay(day: string): string {
+    const [year, month, date] = day.split("-").map(Number);
+    return getDayKey(new Date(year, month - 1, date - 1));
+}
+
+/** Seed shared by everyone playing on `day` (FNV-1a over the day key), so no server is needed */
+export function getDailySeed(day: string): number {
+    let hash = 0x811c9dc5;
+    for (const char of `atomicon-daily-${day}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function toResult(item: unknown): DailyResult | null {
+    if (!item || typeof item !== "object") return null;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.day !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(raw.day)) return null;
+    return {
+        day: raw.day,
+        score: Number(raw.score) || 0,
+        moves: Number(raw.moves) || 0,
+        date: Number(raw.date) || 0,
+        finished: raw.finished !== false,
+    };
+}
+
+/** Results, newest day first */
+export function getDailyHistory(): DailyResult[] {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (!Array.isArray(parsed)) return [];
+        return parsed.map(toResult).filter((result): result is DailyResult => result !== null);
+    } catch {
+        return [];
+    }
+}
+
+export function getDailyResult(day: string): DailyResult | null {
+    return getDailyHistory().find((result) => result.day === day) ?? null;
+}
+
+/** Insert or replace the result for `result.day` */
+export function storeDailyResult(result: DailyResult) {
+    const history = getDailyHistory().filter((entry) => entry.day !== result.day);
+    history.push(result);
+    history.sort((a, b) => b.day.localeCompare(a.day));
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, DAILY_HISTORY_SIZE)));
+}
+
+/** Consecutive days played up to today; a streak survives until today's challenge is missed */
+export function getDailyStreak(today = getDayKey()): number {
+    const played = new Set(getDailyHistory().map((result) => result.day));
+    let day = played.has(today) ? today : previousDay(today);
+    let streak = 0;
+    while (played.has(day)) {
+        streak++;
+        day = previousDay(day);
+    }
+    return streak;
+}
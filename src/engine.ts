@@ -0,0 +1,400 @@
+import {
+    checkLines,
+    cloneGrid,
+    countOccupied,
+    createEmptyGrid,
+    findPath,
+    generateNextColors,
+    getSpawnCount,
+    hasAnyMove,
+    getAllValidPositions,
+    isBoardFull,
+    isEmpty,
+    isFrozen,
+    isValidCell,
+    moveCell,
+    posKey,
+    removeMatches,
+    spawnCells,
+    swapCells,
+    type CellColor,
+    type CellSpecial,
+    type Grid,
+    type Position,
+    type RuleSet,
+    type ScoreBreakdown,
+} from "./game";
+import { Rng } from "./random";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Complete, serializable state of one game */
+export interface GameState {
+    grid: Grid;
+    nextColors: CellColor[];
+    score: number;
+    combo: number;
+    moveCount: number;
+    /** Most cells removed by a single clear */
+    biggestClear: number;
+    maxCombo: number;
+    /** Hot-seat players in turn order; empty in single-player games */
+    players: PlayerScore[];
+    /** Index into `players` of whoever moves next */
+    currentPlayer: number;
+    /** Power-ups earned and not yet spent; hot-seat players keep their own in `players` instead */
+    powerUps: Record<PowerUp, number>;
+    /** Id of the rule set the game is played with */
+    variant: string;
+    seed: number;
+    rngState: number;
+    gameOver: boolean;
+}
+
+/**
+ * One-off actions earned by big clears: move a cell anywhere, reorder the
+ * preview queue, remove a cell, or swap two cells.
+ */
+export type PowerUp = "teleport" | "shuffle" | "delete" | "swap";
+
+export const POWER_UPS: readonly PowerUp[] = ["teleport", "shuffle", "delete", "swap"];
+
+/** A clear reaching this combo, or removing this many cells, earns a power-up */
+export const POWER_UP_COMBO = 3;
+export const POWER_UP_CLEAR_SIZE = 8;
+
+export type PowerUpAction =
+    | { type: "teleport"; from: Position; to: Position }
+    | { type: "shuffle" }
+    | { type: "delete"; at: Position }
+    | { type: "swap"; a: Position; b: Position };
+
+export interface PowerUpResult {
+    action: PowerUpAction;
+    /** Clear formed by a teleported or swapped cell; shuffling and deleting never clear */
+    clear: ClearResult | null;
+    gameOver: boolean;
+}
+
+/** Players in a hot-seat versus game */
+export const VERSUS_PLAYERS = 2;
+
+/** Score, combo and power-ups kept separately for each hot-seat player */
+export interface PlayerScore {
+    score: number;
+    combo: number;
+    powerUps: Record<PowerUp, number>;
+}
+
+export interface ClearResult {
+    /** Position keys ("row,col") of the removed cells */
+    removed: Set<string>;
+    lineCount: number;
+    jokerRemoved: number;
+    /** Cells taken out by bombs */
+    blasted: number;
+    /** Multiplier pieces in the clear; each doubled the score */
+    multipliers: number;
+    /** Score reported by `checkLines` */
+    baseScore: number;
+    /** How `checkLines` arrived at `baseScore` */
+    breakdown: ScoreBreakdown;
+    comboBonus: number;
+    /** baseScore + comboBonus */
+    total: number;
+    /** Combo counter after this clear */
+    combo: number;
+    /** True when the clear was caused by spawned cells rather than the move */
+    chain: boolean;
+}
+
+export interface SpawnedCell {
+    pos: Position;
+    color: CellColor;
+    special?: CellSpecial;
+}
+
+export interface TurnResult {
+    /** Full movement path, source cell first */
+    path: Position[];
+    color: CellColor;
+    /** At most one clear per turn: either from the move or a chain after spawning */
+    clear: ClearResult | null;
+    spawned: SpawnedCell[];
+    gameOver: boolean;
+    /** Index of the player who moved; the turn's clear is credited to them, chain clears included */
+    player: number;
+    /** Power-up earned by the turn's clear */
+    powerUp: PowerUp | null;
+}
+
+/** Fixed start used by puzzle levels instead of a random opening */
+export interface EngineSetup {
+    grid: Grid;
+    /** Every color that will ever spawn, in order; spawning stops once it runs out */
+    spawns: CellColor[];
+}
+
+/** Bonus added to a clear's score; `combo` is the combo count including that clear */
+export function getComboBonus(score: number, combo: number): number {
+    return combo > 1 ? Math.floor(score * 0.2 * (combo - 1)) : 0;
+}
+
+export function cloneState(state: GameState): GameState {
+    return {
+        ...state,
+        grid: cloneGrid(state.grid),
+        nextColors: [...state.nextColors],
+        players: state.players.map((player) => ({ ...player, powerUps: { ...player.powerUps } })),
+        powerUps: { ...state.powerUps },
+    };
+}
+
+export function createPowerUpInventory(): Record<PowerUp, number> {
+    return { teleport: 0, shuffle: 0, delete: 0, swap: 0 };
+}
+
+// ─── Engine ──────────────────────────────────────────────────────────────────
+
+/**
+ * UI-free game rules. The engine resolves a whole turn synchronously; the
+ * controller replays the returned `TurnResult` with animations.
+ */
+export class GameEngine {
+    readonly state: GameState;
+    readonly rules: RuleSet;
+    private rng: Rng;
+    /** `nextColors` holds the remaining fixed sequence rather than a random preview */
+    private readonly fixedSpawns: boolean;
+
+    /** `playerCount` above 1 plays a hot-seat game with alternating turns */
+    constructor(seed: number, rules: RuleSet, setup?: EngineSetup, playerCount = 1) {
+        this.rules = rules;
+        this.rng = new Rng(seed);
+        this.fixedSpawns = !!setup;
+        let grid: Grid;
+        let nextColors: CellColor[];
+        if (setup) {
+            grid = cloneGrid(setup.grid);
+            nextColors = [...setup.spawns];
+        } else {
+            grid = createEmptyGrid(rules);
+            nextColors = generateNextColors(rules.previewSize, 0, this.rng, rules);
+            spawnCells(grid, generateNextColors(rules.initialSpawn, 0, this.rng, rules), this.rng, rules);
+        }
+        this.state = {
+            grid,
+            nextColors,
+            score: 0,
+            combo: 0,
+            moveCount: 0,
+            biggestClear: 0,
+            maxCombo: 0,
+            players: Array.from({ length: playerCount > 1 ? playerCount : 0 }, () => ({
+                score: 0,
+                combo: 0,
+                powerUps: createPowerUpInventory(),
+            })),
+            currentPlayer: 0,
+            powerUps: createPowerUpInventory(),
+            variant: rules.id,
+            seed,
+            rngState: this.rng.getState(),
+            gameOver: false,
+        };
+    }
+
+    /** Deep copy of the current state, including the RNG position */
+    snapshot(): GameState {
+        return cloneState(this.state);
+    }
+
+    /** Return to a state previously captured with `snapshot()` */
+    restore(snapshot: GameState) {
+        Object.assign(this.state, cloneState(snapshot));
+        this.rng.setState(snapshot.rngState);
+    }
+
+    /** Inventory of `player`, the one to move by default; single-player games have just `state.powerUps` */
+    powerUps(player = this.state.currentPlayer): Record<PowerUp, number> {
+        return this.state.players[player]?.powerUps ?? this.state.powerUps;
+    }
+
+    /** Number of preview colors that the next spawn will use */
+    getSpawnCount(): number {
+        const occupied = countOccupied(this.state.grid, this.rules);
+        const cellCount = getAllValidPositions(this.rules).length;
+        const count = getSpawnCount(this.state.moveCount, occupied / cellCount, this.rules);
+        return Math.min(count, this.state.nextColors.length);
+    }
+
+    /**
+     * Move the cell at `from` to the empty cell `to` and resolve the turn.
+     * Returns null when the move is not legal.
+     */
+    applyMove(from: Position, to: Position): TurnResult | null {
+        const state = this.state;
+        if (state.gameOver) return null;
+        const color = state.grid[from.row]?.[from.col]?.color;
+        if (color === undefined || color < 0) return null;
+
+        const path = findPath(state.grid, from, to, this.rules);
+        if (!path || path.length === 0) return null;
+
+        moveCell(state.grid, from, to);
+        state.moveCount++;
+
+        const result: TurnResult = {
+            path: [from, ...path],
+            color,
+            clear: this.resolveClear(false),
+            spawned: [],
+            gameOver: false,
+            player: state.currentPlayer,
+            powerUp: null,
+        };
+
+        if (!result.clear) {
+            result.spawned = this.spawn();
+            if (result.spawned.length > 0) result.clear = this.resolveClear(true);
+        }
+
+        result.gameOver = isBoardFull(state.grid, this.rules) || !hasAnyMove(state.grid, this.rules);
+        state.gameOver = result.gameOver;
+        result.powerUp = this.awardPowerUp(result.clear);
+        this.passTurn(result);
+        state.rngState = this.rng.getState();
+        return result;
+    }
+
+    private resolveClear(chain: boolean): ClearResult | null {
+        const state = this.state;
+        const { toRemove, score, breakdown, lineCount, jokerRemoved, blasted, multipliers } = checkLines(
+            state.grid,
+            this.rules,
+        );
+        if (toRemove.size === 0) {
+            state.combo = 0;
+            return null;
+        }
+
+        state.combo++;
+        const comboBonus = getComboBonus(score, state.combo);
+        const total = score + comboBonus;
+        state.score += total;
+        state.biggestClear = Math.max(state.biggestClear, toRemove.size);
+        state.maxCombo = Math.max(state.maxCombo, state.combo);
+        removeMatches(state.grid, toRemove, this.rules);
+
+        return {
+            removed: toRemove,
+            lineCount,
+            jokerRemoved,
+            blasted,
+            multipliers,
+            baseScore: score,
+            breakdown,
+            comboBonus,
+            total,
+            combo: state.combo,
+            chain,
+        };
+    }
+
+    /**
+     * Spend a power-up from the inventory. Unlike a move it spawns nothing and
+     * keeps the combo running; returns null when it is not available or the
+     * target cells do not fit it.
+     */
+    usePowerUp(action: PowerUpAction): PowerUpResult | null {
+        const state = this.state;
+        const inventory = this.powerUps();
+        if (state.gameOver || inventory[action.type] <= 0 || !this.canApply(action)) return null;
+
+        const grid = state.grid;
+        switch (action.type) {
+            case "teleport":
+                moveCell(grid, action.from, action.to);
+                break;
+            case "shuffle": {
+                const colors = state.nextColors;
+                for (let i = colors.length - 1; i > 0; i--) {
+                    const j = this.rng.nextInt(i + 1);
+                    [colors[i], colors[j]] = [colors[j], colors[i]];
+                }
+                break;
+            }
+            case "delete":
+                removeMatches(grid, new Set([posKey(action.at)]), this.rules);
+                break;
+            case "swap":
+                swapCells(grid, action.a, action.b);
+                break;
+        }
+        inventory[action.type]--;
+
+        let clear: ClearResult | null = null;
+        if (action.type === "teleport" || action.type === "swap") {
+            const combo = state.combo;
+            clear = this.resolveClear(false);
+            if (clear) {
+                const player = state.players[state.currentPlayer];
+                if (player) player.score += clear.total;
+            } else {
+                state.combo = combo;
+            }
+        }
+
+        state.gameOver = isBoardFull(grid, this.rules) || !hasAnyMove(grid, this.rules);
+        state.rngState = this.rng.getState();
+        return { action, clear, gameOver: state.gameOver };
+    }
+
+    /** Whether the cells named by `action` are valid targets; frozen cells cannot be moved, only deleted */
+    private canApply(action: PowerUpAction): boolean {
+        const grid = this.state.grid;
+        const occupied = (pos: Position) => isValidCell(pos, this.rules) && grid[pos.row][pos.col].color >= 0;
+        const movable = (pos: Position) => occupied(pos) && !isFrozen(grid, pos);
+        switch (action.type) {
+            case "teleport":
+                return movable(action.from) && isEmpty(grid, action.to, this.rules);
+            case "shuffle":
+                // Puzzle levels spawn a fixed sequence
+                return !this.fixedSpawns;
+            case "delete":
+                return occupied(action.at);
+            case "swap":
+                return movable(action.a) && movable(action.b) && posKey(action.a) !== posKey(action.b);
+        }
+    }
+
+    /** Big clears earn a power-up; the kind rotates with the move count so no random numbers are drawn */
+    private awardPowerUp(clear: ClearResult | null): PowerUp | null {
+        if (!clear || (clear.combo < POWER_UP_COMBO && clear.removed.size < POWER_UP_CLEAR_SIZE)) return null;
+        const powerUp = POWER_UPS[this.state.moveCount % POWER_UPS.length];
+        // Awarded before the turn passes, so it goes to the mover
+        this.powerUps()[powerUp]++;
+        return powerUp;
+    }
+
+    /** Credit the mover and hand the board to the next player; `combo` always belongs to whoever moves next */
+    private passTurn(turn: TurnResult) {
+        const state = this.state;
+        const mover = state.players[turn.player];
+        if (!mover) return;
+        mover.score += turn.clear?.total ?? 0;
+        mover.combo = state.combo;
+        state.currentPlayer = (turn.player + 1) % state.players.length;
+        state.combo = state.players[state.currentPlayer].combo;
+    }
+
+    private spawn(): SpawnedCell[] {
+        const state = this.state;
+        const spawnColors = state.nextColors.slice(0, this.getSpawnCount());
+        const placed = spawnCells(state.grid, spawnColors, this.rng, this.rules);
+        state.nextColors = this.fixedSpawns
+            ? state.nextColors.slice(spawnColors.length)
+            : generateNextColors(this.rules.previewSize, state.moveCount, this.rng, this.rules);
+        return placed.map((pos, i) => ({ pos, color: spawnColors[i], special: state.grid[pos.row][pos.col].special }));
+    }
+}
@@ -0,0 +1,95 @@
+import {
+    checkLines,
+    cloneGrid,
+    findReachable,
+    getAllValidPositions,
+    getGroupAt,
+    hasAnyMove,
+    moveCell,
+    pathTo,
+    removeMatches,
+    type Grid,
+    type Position,
+    type RuleSet,
+} from "./game";
+
+export interface Move {
+    from: Position;
+    to: Position;
+    /** Path excluding the source cell */
+    path: Position[];
+}
+
+export interface MoveEvaluation extends Move {
+    /** Immediate score from `checkLines` (without combo bonus) */
+    clearScore: number;
+    cleared: number;
+    /** Size of the moved cell's group before and after the move */
+    groupBefore: number;
+    groupAfter: number;
+    /** Whether any move is still possible afterwards */
+    mobile: boolean;
+    value: number;
+}
+
+const CLEAR_WEIGHT = 10;
+const GROUP_WEIGHT = 3;
+const STUCK_PENALTY = 1000;
+
+/** Every legal move: each occupied cell to each empty cell it can reach */
+export function enumerateMoves(grid: Grid, rules: RuleSet): Move[] {
+    const moves: Move[] = [];
+    for (const from of getAllValidPositions(rules)) {
+        if (grid[from.row][from.col].color < 0) continue;
+        const reach = findReachable(grid, from, rules);
+        for (const to of reach.cells) {
+            moves.push({ from, to, path: pathTo(reach, to)! });
+        }
+    }
+    return moves;
+}
+
+export function evaluateMove(grid: Grid, move: Move, rules: RuleSet): MoveEvaluation {
+    const groupBefore = getGroupAt(grid, move.from, rules).length;
+
+    const after = cloneGrid(grid);
+    moveCell(after, move.from, move.to);
+
+    const { toRemove, score } = checkLines(after, rules);
+    const cap = rules.minMatch - 1;
+    // A clearing move consumes the group; otherwise reward growing it toward the match size
+    const groupAfter = toRemove.size > 0 ? toRemove.size : Math.min(getGroupAt(after, move.to, rules).length, cap);
+    removeMatches(after, toRemove, rules);
+    const mobile = hasAnyMove(after, rules);
+
+    const value =
+        score * CLEAR_WEIGHT +
+        (toRemove.size > 0 ? 0 : (groupAfter - Math.min(groupBefore, cap)) * GROUP_WEIGHT) -
+        (mobile ? 0 : STUCK_PENALTY);
+
+    return {
+        ...move,
+        clearScore: score,
+        cleared: toRemove.size,
+        groupBefore,
+        groupAfter,
+        mobile,
+        value,
+    };
+}
+
+/** All legal moves, best first */
+export function evaluateMoves(grid: Grid, rules: RuleSet): MoveEvaluation[] {
+    return enumerateMoves(grid, rules)
+        .map((move) => evaluateMove(grid, move, rules))
+        .sort((a, b) => b.value - a.value);
+}
+
+export function findBestMove(grid: Grid, rules: RuleSet): MoveEvaluation | null {
+    let best: MoveEvaluation | null = null;
+    for (const move of enumerateMoves(grid, rules)) {
+        const evaluation = evaluateMove(grid, move, rules);
+        if (!best || evaluation.value > best.value) best = evaluation;
+    }
+    return best;
+}
@@ -0,0 +1,62 @@
+import type { ClearResult, SpawnedCell } from "./engine";
+import type { CellColor, CellSpecial, Grid, Position, RuleSet } from "./game";
+
+/** Payload of each game lifecycle event the controller publishes */
+export interface GameEvents {
+    /** A board was set up: a new game, a restored one, a level or a replay */
+    gameStarted: { rules: RuleSet; mode: string; replay: boolean };
+    cellSelected: { pos: Position; color: CellColor };
+    /** The engine accepted a move; `moves` already counts it */
+    moveStarted: { path: Position[]; color: CellColor; special?: CellSpecial; moves: number };
+    moveRejected: { pos: Position; reason: "no-path" | "frozen" };
+    /** A clear starts its removal; `grid` still holds the cleared cells and `score` includes the clear */
+    cleared: { clear: ClearResult; grid: Grid; score: number };
+    comboChanged: { combo: number; previous: number };
+    spawned: { cells: SpawnedCell[] };
+    /** The game ended; levels report whether they were won */
+    gameOver: {
+        rules: RuleSet;
+        grid: Grid;
+        score: number;
+        moves: number;
+        biggestClear: number;
+        maxCombo: number;
+        result: "finished" | "won" | "lost";
+    };
+}
+
+export type GameEventName = keyof GameEvents;
+
+export const GAME_EVENT_NAMES: readonly GameEventName[] = [
+    "gameStarted",
+    "cellSelected",
+    "moveStarted",
+    "moveRejected",
+    "cleared",
+    "comboChanged",
+    "spawned",
+    "gameOver",
+];
+
+export type Listener<T> = (payload: T) => void;
+
+/** Typed publish/subscribe; listeners run synchronously in the order they subscribed */
+export class EventBus<Events extends object> {
+    private listeners: { [K in keyof Events]?: Listener<Events[K]>[] } = {};
+
+    /** Subscribe to `name`; returns a function that unsubscribes again */
+    on<K extends keyof Events>(name: K, listener: Listener<Events[K]>): () => void {
+        const list = this.listeners[name] ?? [];
+        this.listeners[name] = list;
+        list.push(listener);
+        return () => {
+            const index = list.indexOf(listener);
+            if (index >= 0) list.splice(index, 1);
+        };
+    }
+
+    emit<K extends keyof Events>(name: K, payload: Events[K]) {
+        // Copy so listeners may unsubscribe while the event is delivered
+        for (const listener of [...(this.listeners[name] ?? [])]) listener(payload);
+    }
+}
@@ -1,17 +1,28 @@
-export const GRID_SIZE = 9;
-export const HEX_RADIUS = 4;
-export const VALID_CELL_COUNT = 60;
-export const NUM_COLORS = 7;
-export const JOKER_COLOR = NUM_COLORS;
+import type { Rng } from "./random";
+
+/** Upper bound for `RuleSet.numColors`; the renderer has one theme per color */
+export const MAX_COLORS = 7;
+export const JOKER_COLOR = MAX_COLORS;
 export const EMPTY_COLOR = -1;
 export const BLOCKED_COLOR = -2;
-export const MIN_MATCH = 5;
-export const PREVIEW_SIZE = 5;
 
 export type CellColor = number;
 
+/**
+ * Extra behaviour carried by a colored piece: a bomb clears its neighbours when
+ * it is part of a clear, a frozen piece cannot move until a clear next to it
+ * thaws it, and a multiplier doubles the score of its clear.
+ */
+export type CellSpecial = "bomb" | "frozen" | "multiplier";
+
+export const CELL_SPECIALS: readonly CellSpecial[] = ["bomb", "frozen", "multiplier"];
+
 export interface Cell {
     color: CellColor;
+    /** Puzzle target; cleared together with whatever occupies the cell */
+    target?: boolean;
+    /** Moves with the piece; jokers never carry one */
+    special?: CellSpecial;
 }
 
 export interface Position {
@@ -21,7 +32,56 @@ export interface Position {
 
 export type Grid = Cell[][];
 
-const HEX_DIRS: [number, number][] = [
+/**
+ * Board shape in storage coordinates: `row` is the axial r and `col` the axial q
+ * of a pointy-top hex grid. Positions that are neither cells nor walls are holes.
+ */
+export interface BoardLayout {
+    id: string;
+    name: string;
+    /** Side length of the square grid that stores the board */
+    size: number;
+    /** Playable cells */
+    cells: Position[];
+    /** Permanent obstacles: drawn on the board but never playable */
+    walls: Position[];
+}
+
+/** `count` cells spawn while the game is below both thresholds */
+export interface SpawnStage {
+    maxMoves: number;
+    maxOccupancy: number;
+    count: number;
+}
+
+/** Rules that differ between game variants; see `variants.ts` */
+export interface RuleSet {
+    /** Stable id stored in saves and replays */
+    id: string;
+    name: string;
+    layout: BoardLayout;
+    numColors: number;
+    minMatch: number;
+    /** Preview queue length; at least `maxSpawn` */
+    previewSize: number;
+    /** Cells placed on the empty board when a game starts */
+    initialSpawn: number;
+    /** Checked in order; the first stage whose thresholds are not reached sets the spawn count */
+    spawnCurve: SpawnStage[];
+    /** Spawn count once the whole curve has been passed */
+    maxSpawn: number;
+    /** Joker chance per spawned cell: starts at `jokerChanceStart`, grows by `jokerChanceStep` per move */
+    jokerChanceStart: number;
+    jokerChanceStep: number;
+    jokerChanceMax: number;
+    /** Chance per spawned colored cell of each special; all zero in the classic rules */
+    bombChance: number;
+    frozenChance: number;
+    multiplierChance: number;
+}
+
+/** Axial [dq, dr] offsets: E, NE, NW, W, SW, SE (pointy-top layout) */
+export const HEX_DIRS: readonly [number, number][] = [
     [1, 0],
     [1, -1],
     [0, -1],
@@ -30,145 +90,228 @@ const HEX_DIRS: [number, number][] = [
     [0, 1],
 ];
 
-function key(pos: Position): string {
+/** "row,col" key used for position sets */
+export function posKey(pos: Position): string {
     return `${pos.row},${pos.col}`;
 }
 
-export function isValidCell(pos: Position): boolean {
-    if (pos.row < 0 || pos.row >= GRID_SIZE || pos.col < 0 || pos.col >= GRID_SIZE) {
-        return false;
-    }
-    const q = pos.col - HEX_RADIUS;
-    const r = pos.row - HEX_RADIUS;
-    const s = -q - r;
-    if (Math.max(Math.abs(q), Math.abs(r), Math.abs(s)) > HEX_RADIUS) return false;
-    // Remove the central cell
-    if (q === 0 && r === 0) return false;
-    return true;
-}
-
-export function getAllValidPositions(): Position[] {
-    const positions: Position[] = [];
-    for (let row = 0; row < GRID_SIZE; row++) {
-        for (let col = 0; col < GRID_SIZE; col++) {
-            const pos = { row, col };
-            if (isValidCell(pos)) positions.push(pos);
+export function getGridSize(rules: RuleSet): number {
+    return rules.layout.size;
+}
+
+interface LayoutIndex {
+    /** Playable cells in row-major order */
+    positions: readonly Position[];
+    valid: boolean[][];
+    /** Playable neighbours of each playable cell */
+    neighbors: Position[][][];
+}
+
+const layoutIndexCache = new WeakMap<BoardLayout, LayoutIndex>();
+
+function getLayoutIndex(layout: BoardLayout): LayoutIndex {
+    let index = layoutIndexCache.get(layout);
+    if (!index) {
+        const valid = Array.from({ length: layout.size }, () => Array<boolean>(layout.size).fill(false));
+        for (const pos of layout.cells) valid[pos.row][pos.col] = true;
+        const positions: Position[] = [];
+        const neighbors: Position[][][] = Array.from({ length: layout.size }, () => []);
+        for (let row = 0; row < layout.size; row++) {
+            for (let col = 0; col < layout.size; col++) {
+                if (!valid[row][col]) continue;
+                positions.push({ row, col });
+                neighbors[row][col] = HEX_DIRS.map(([dq, dr]) => ({ row: row + dr, col: col + dq })).filter(
+                    (next) => valid[next.row]?.[next.col] === true,
+                );
+            }
         }
+        index = { positions, valid, neighbors };
+        layoutIndexCache.set(layout, index);
     }
-    return positions;
+    return index;
+}
+
+export function isValidCell(pos: Position, rules: RuleSet): boolean {
+    return getLayoutIndex(rules.layout).valid[pos.row]?.[pos.col] === true;
+}
+
+/** Playable cells in row-major order */
+export function getAllValidPositions(rules: RuleSet): readonly Position[] {
+    return getLayoutIndex(rules.layout).positions;
 }
 
-export function createEmptyGrid(): Grid {
+export function createEmptyGrid(rules: RuleSet): Grid {
     const grid: Grid = [];
-    for (let row = 0; row < GRID_SIZE; row++) {
+    const size = getGridSize(rules);
+    for (let row = 0; row < size; row++) {
         grid[row] = [];
-        for (let col = 0; col < GRID_SIZE; col++) {
+        for (let col = 0; col < size; col++) {
             const pos = { row, col };
-            grid[row][col] = { color: isValidCell(pos) ? EMPTY_COLOR : BLOCKED_COLOR };
+            grid[row][col] = { color: isValidCell(pos, rules) ? EMPTY_COLOR : BLOCKED_COLOR };
         }
     }
     return grid;
 }
 
-export function isEmpty(grid: Grid, pos: Position): boolean {
-    return isValidCell(pos) && grid[pos.row][pos.col].color === EMPTY_COLOR;
+export function cloneGrid(grid: Grid): Grid {
+    return grid.map((row) => row.map((cell) => ({ ...cell })));
+}
+
+export function isEmpty(grid: Grid, pos: Position, rules: RuleSet): boolean {
+    return isValidCell(pos, rules) && grid[pos.row][pos.col].color === EMPTY_COLOR;
 }
 
-export function getEmptyCells(grid: Grid): Position[] {
+export function getEmptyCells(grid: Grid, rules: RuleSet): Position[] {
     const empty: Position[] = [];
-    for (const pos of getAllValidPositions()) {
+    for (const pos of getAllValidPositions(rules)) {
         if (grid[pos.row][pos.col].color === EMPTY_COLOR) empty.push(pos);
     }
     return empty;
 }
 
-export function countOccupied(grid: Grid): number {
+export function countOccupied(grid: Grid, rules: RuleSet): number {
     let occupied = 0;
-    for (const pos of getAllValidPositions()) {
+    for (const pos of getAllValidPositions(rules)) {
         if (grid[pos.row][pos.col].color >= 0) occupied++;
     }
     return occupied;
 }
 
-function jokerChance(moveCount: number): number {
-    return Math.min(0.05, 0.01 + moveCount * 0.0006);
+function jokerChance(moveCount: number, rules: RuleSet): number {
+    return Math.min(rules.jokerChanceMax, rules.jokerChanceStart + moveCount * rules.jokerChanceStep);
 }
 
-function randomColor(moveCount: number): CellColor {
-    if (Math.random() < jokerChance(moveCount)) return JOKER_COLOR;
-    return Math.floor(Math.random() * NUM_COLORS);
+function randomColor(moveCount: number, rng: Rng, rules: RuleSet): CellColor {
+    if (rng.next() < jokerChance(moveCount, rules)) return JOKER_COLOR;
+    return rng.nextInt(rules.numColors);
 }
 
-export function generateNextColors(count: number, moveCount: number): CellColor[] {
-    return Array.from({ length: count }, () => randomColor(moveCount));
+export function generateNextColors(count: number, moveCount: number, rng: Rng, rules: RuleSet): CellColor[] {
+    return Array.from({ length: count }, () => randomColor(moveCount, rng, rules));
 }
 
-export function getSpawnCount(moveCount: number, occupiedRatio: number): number {
-    if (moveCount < 10 && occupiedRatio < 0.58) return 3;
-    if (moveCount < 25 && occupiedRatio < 0.82) return 4;
-    return 5;
+export function getSpawnCount(moveCount: number, occupiedRatio: number, rules: RuleSet): number {
+    for (const stage of rules.spawnCurve) {
+        if (moveCount < stage.maxMoves && occupiedRatio < stage.maxOccupancy) return stage.count;
+    }
+    return rules.maxSpawn;
+}
+
+function specialChance(special: CellSpecial, rules: RuleSet): number {
+    switch (special) {
+        case "bomb":
+            return rules.bombChance;
+        case "frozen":
+            return rules.frozenChance;
+        case "multiplier":
+            return rules.multiplierChance;
+    }
 }
 
-export function spawnCells(grid: Grid, nextColors: CellColor[]): Position[] {
-    const empty = getEmptyCells(grid);
+function randomSpecial(rng: Rng, rules: RuleSet): CellSpecial | undefined {
+    let roll = rng.next();
+    for (const special of CELL_SPECIALS) {
+        const chance = specialChance(special, rules);
+        if (roll < chance) return special;
+        roll -= chance;
+    }
+    return undefined;
+}
+
+export function spawnCells(grid: Grid, nextColors: CellColor[], rng: Rng, rules: RuleSet): Position[] {
+    const empty = getEmptyCells(grid, rules);
     const placed: Position[] = [];
+    // Rule sets without specials draw no extra random numbers, so their games and replays are unchanged
+    const hasSpecials = CELL_SPECIALS.some((special) => specialChance(special, rules) > 0);
     for (let i = 0; i < nextColors.length && empty.length > 0; i++) {
-        const idx = Math.floor(Math.random() * empty.length);
+        const idx = rng.nextInt(empty.length);
         const pos = empty.splice(idx, 1)[0];
-        grid[pos.row][pos.col].color = nextColors[i];
+        const cell = grid[pos.row][pos.col];
+        cell.color = nextColors[i];
+        if (hasSpecials && cell.color !== JOKER_COLOR) cell.special = randomSpecial(rng, rules);
         placed.push(pos);
     }
     return placed;
 }
 
-function neighbors(pos: Position): Position[] {
-    const list: Position[] = [];
-    for (const [dq, dr] of HEX_DIRS) {
-        const next = { row: pos.row + dr, col: pos.col + dq };
-        if (isValidCell(next)) list.push(next);
-    }
-    return list;
+/** Move the piece at `from`, special included, onto the empty cell `to`; targets stay where they are */
+export function moveCell(grid: Grid, from: Position, to: Position) {
+    const source = grid[from.row][from.col];
+    grid[to.row][to.col] = { ...grid[to.row][to.col], color: source.color, special: source.special };
+    grid[from.row][from.col] = source.target ? { color: EMPTY_COLOR, target: true } : { color: EMPTY_COLOR };
 }
 
-function createVisitedGrid(): boolean[][] {
-    return Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(false));
+/** Exchange the pieces on two cells, specials included */
+export function swapCells(grid: Grid, a: Position, b: Position) {
+    const cellA = grid[a.row][a.col];
+    const cellB = grid[b.row][b.col];
+    grid[a.row][a.col] = { ...cellA, color: cellB.color, special: cellB.special };
+    grid[b.row][b.col] = { ...cellB, color: cellA.color, special: cellA.special };
 }
 
-export function findPath(grid: Grid, from: Position, to: Position): Position[] | null {
-    if (!isValidCell(from) || !isValidCell(to)) return null;
-    if (from.row === to.row && from.col === to.col) return [];
-    if (!isEmpty(grid, to)) return null;
+export function isFrozen(grid: Grid, pos: Position): boolean {
+    return grid[pos.row][pos.col].special === "frozen";
+}
+
+function neighbors(pos: Position, rules: RuleSet): readonly Position[] {
+    return getLayoutIndex(rules.layout).neighbors[pos.row][pos.col];
+}
 
-    const visited: boolean[][] = Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(false));
-    const parent: (Position | null)[][] = Array.from({ length: GRID_SIZE }, () => Array(GRID_SIZE).fill(null));
+function createVisitedGrid(rules: RuleSet): boolean[][] {
+    const size = getGridSize(rules);
+    return Array.from({ length: size }, () => Array(size).fill(false));
+}
+
+/** Result of a BFS flood over empty cells from one source cell */
+export interface Reachability {
+    from: Position;
+    /** Reachable empty cells in BFS order */
+    cells: Position[];
+    parent: (Position | null)[][];
+}
 
-    const queue: Position[] = [from];
+export function findReachable(grid: Grid, from: Position, rules: RuleSet): Reachability {
+    const visited = createVisitedGrid(rules);
+    const size = getGridSize(rules);
+    const parent: (Position | null)[][] = Array.from({ length: size }, () => Array(size).fill(null));
+    const cells: Position[] = [];
+
+    // A frozen piece reaches nothing until it thaws
+    const queue: Position[] = isFrozen(grid, from) ? [] : [from];
     visited[from.row][from.col] = true;
 
     while (queue.length > 0) {
         const cur = queue.shift()!;
-        for (const next of neighbors(cur)) {
+        for (const next of neighbors(cur, rules)) {
             if (visited[next.row][next.col]) continue;
-            const isSource = next.row === from.row && next.col === from.col;
-            if (!isSource && grid[next.row][next.col].color !== EMPTY_COLOR) continue;
+            if (grid[next.row][next.col].color !== EMPTY_COLOR) continue;
 
             visited[next.row][next.col] = true;
             parent[next.row][next.col] = cur;
-
-            if (next.row === to.row && next.col === to.col) {
-                const path: Position[] = [];
-                let p: Position | null = to;
-                while (p && !(p.row === from.row && p.col === from.col)) {
-                    path.push(p);
-                    p = parent[p.row][p.col];
-                }
-                return path.reverse();
-            }
-
+            cells.push(next);
             queue.push(next);
         }
     }
-    return null;
+    return { from, cells, parent };
+}
+
+/** Rebuild the path (excluding the source) to `to`; null when it was not reached */
+export function pathTo(reach: Reachability, to: Position): Position[] | null {
+    if (!reach.parent[to.row]?.[to.col]) return null;
+    const path: Position[] = [];
+    let p: Position | null = to;
+    while (p && !(p.row === reach.from.row && p.col === reach.from.col)) {
+        path.push(p);
+        p = reach.parent[p.row][p.col];
+    }
+    return path.reverse();
+}
+
+export function findPath(grid: Grid, from: Position, to: Position, rules: RuleSet): Position[] | null {
+    if (!isValidCell(from, rules) || !isValidCell(to, rules)) return null;
+    if (from.row === to.row && from.col === to.col) return [];
+    if (!isEmpty(grid, to, rules)) return null;
+    return pathTo(findReachable(grid, from, rules), to);
 }
 
 function collectGroupForBase(
@@ -176,6 +319,7 @@ function collectGroupForBase(
     start: Position,
     baseColor: number,
     visited: boolean[][],
+    rules: RuleSet,
 ): { group: Position[]; baseCount: number } {
     const group: Position[] = [];
     let baseCount = 0;
@@ -190,7 +334,7 @@ function collectGroupForBase(
 
         if (color === baseColor) baseCount++;
 
-        for (const next of neighbors(current)) {
+        for (const next of neighbors(current, rules)) {
             if (visited[next.row][next.col]) continue;
             const nextColor = grid[next.row][next.col].color;
             if (nextColor !== baseColor && nextColor !== JOKER_COLOR) continue;
@@ -202,18 +346,37 @@ function collectGroupForBase(
     return { group, baseCount };
 }
 
-export function checkLines(grid: Grid): {
+/** Components of a clear's score; `score` is their sum times `multiplier` */
+export interface ScoreBreakdown {
+    /** 2 per removed cell */
+    base: number;
+    /** 2 per matched cell beyond `minMatch` */
+    length: number;
+    /** 6 per line beyond the first */
+    multiLine: number;
+    /** 2 per joker removed */
+    joker: number;
+    /** 2 to the power of the multiplier pieces in the clear */
+    multiplier: number;
+}
+
+export function checkLines(grid: Grid, rules: RuleSet): {
     toRemove: Set<string>;
     score: number;
+    breakdown: ScoreBreakdown;
     lineCount: number;
     jokerRemoved: number;
+    /** Cells removed by bombs rather than by matching */
+    blasted: number;
+    /** Multiplier pieces in the clear; each one doubles the score */
+    multipliers: number;
 } {
     const toRemove = new Set<string>();
     let lineCount = 0;
 
-    const visitedByBase = Array.from({ length: NUM_COLORS }, () => createVisitedGrid());
+    const visitedByBase = Array.from({ length: rules.numColors }, () => createVisitedGrid(rules));
 
-    for (const pos of getAllValidPositions()) {
+    for (const pos of getAllValidPositions(rules)) {
         const color = grid[pos.row][pos.col].color;
         if (color < 0 || color === JOKER_COLOR) continue;
 
@@ -221,11 +384,11 @@ export function checkLines(grid: Grid): {
         const visited = visitedByBase[baseColor];
         if (visited[pos.row][pos.col]) continue;
 
-        const { group, baseCount } = collectGroupForBase(grid, pos, baseColor, visited);
-        if (group.length >= MIN_MATCH && baseCount > 0) {
+        const { group, baseCount } = collectGroupForBase(grid, pos, baseColor, visited, rules);
+        if (group.length >= rules.minMatch && baseCount > 0) {
             let addedAny = false;
             for (const groupPos of group) {
-                const groupKey = key(groupPos);
+                const groupKey = posKey(groupPos);
                 if (!toRemove.has(groupKey)) {
                     toRemove.add(groupKey);
                     addedAny = true;
@@ -235,40 +398,110 @@ export function checkLines(grid: Grid): {
         }
     }
 
+    // Bombs in the clear take every occupied neighbour with them, setting off any bomb they reach
+    const matched = toRemove.size;
+    const pending = [...toRemove];
+    while (pending.length > 0) {
+        const [row, col] = pending.pop()!.split(",").map(Number);
+        if (grid[row][col].special !== "bomb") continue;
+        for (const next of neighbors({ row, col }, rules)) {
+            const nextKey = posKey(next);
+            if (grid[next.row][next.col].color < 0 || toRemove.has(nextKey)) continue;
+            toRemove.add(nextKey);
+            pending.push(nextKey);
+        }
+    }
+
     let jokerRemoved = 0;
+    let multipliers = 0;
     for (const posKey of toRemove) {
         const [row, col] = posKey.split(",").map(Number);
         if (grid[row][col].color === JOKER_COLOR) jokerRemoved++;
+        if (grid[row][col].special === "multiplier") multipliers++;
     }
 
-    const baseScore = toRemove.size * 2;
-    const lengthBonus = Math.max(0, toRemove.size - MIN_MATCH) * 2;
-    const multiLineBonus = lineCount > 1 ? (lineCount - 1) * 6 : 0;
-    const jokerBonus = jokerRemoved * 2;
+    // Blasted cells score like matched ones but do not count towards the length bonus
+    const breakdown: ScoreBreakdown = {
+        base: toRemove.size * 2,
+        length: Math.max(0, matched - rules.minMatch) * 2,
+        multiLine: lineCount > 1 ? (lineCount - 1) * 6 : 0,
+        joker: jokerRemoved * 2,
+        multiplier: 2 ** multipliers,
+    };
+    const { base, length, multiLine, joker, multiplier } = breakdown;
+    const score = (base + length + multiLine + joker) * multiplier;
 
     return {
         toRemove,
-        score: toRemove.size > 0 ? baseScore + lengthBonus + multiLineBonus + jokerBonus : 0,
+        score: toRemove.size > 0 ? score : 0,
+        breakdown,
         lineCount,
         jokerRemoved,
+        blasted: toRemove.size - matched,
+        multipliers,
     };
 }
 
-export function removeMatches(grid: Grid, toRemove: Set<string>): void {
+/** Cells that would clear together with `pos`; a joker takes the best adjacent color */
+export function getGroupAt(grid: Grid, pos: Position, rules: RuleSet): Position[] {
+    const color = grid[pos.row][pos.col].color;
+    if (color < 0) return [];
+    if (color !== JOKER_COLOR) return collectGroupForBase(grid, pos, color, createVisitedGrid(rules), rules).group;
+
+    let best: Position[] = [pos];
+    for (let baseColor = 0; baseColor < rules.numColors; baseColor++) {
+        const { group, baseCount } = collectGroupForBase(grid, pos, baseColor, createVisitedGrid(rules), rules);
+        if (baseCount > 0 && group.length > best.length) best = group;
+    }
+    return best;
+}
+
+/** Result of `checkLines` after moving `from` to `to` on a copy of the grid; null if unreachable */
+export function previewMove(
+    grid: Grid,
+    from: Position,
+    to: Position,
+    rules: RuleSet,
+): ReturnType<typeof checkLines> | null {
+    const path = findPath(grid, from, to, rules);
+    if (!path || path.length === 0) return null;
+    return checkMoveOutcome(grid, from, to, rules);
+}
+
+/** `checkLines` after moving `from` to `to` on a copy of the grid, without checking reachability */
+export function checkMoveOutcome(
+    grid: Grid,
+    from: Position,
+    to: Position,
+    rules: RuleSet,
+): ReturnType<typeof checkLines> {
+    const copy = cloneGrid(grid);
+    moveCell(copy, from, to);
+    return checkLines(copy, rules);
+}
+
+/** Empty the cleared cells and thaw frozen pieces next to them */
+export function removeMatches(grid: Grid, toRemove: Set<string>, rules: RuleSet): void {
     for (const posKey of toRemove) {
         const [row, col] = posKey.split(",").map(Number);
-        grid[row][col].color = EMPTY_COLOR;
+        grid[row][col] = { color: EMPTY_COLOR };
+    }
+    for (const posKey of toRemove) {
+        const [row, col] = posKey.split(",").map(Number);
+        for (const next of neighbors({ row, col }, rules)) {
+            if (isFrozen(grid, next)) grid[next.row][next.col].special = undefined;
+        }
     }
 }
 
-export function isBoardFull(grid: Grid): boolean {
-    return getEmptyCells(grid).length === 0;
+export function isBoardFull(grid: Grid, rules: RuleSet): boolean {
+    return getEmptyCells(grid, rules).length === 0;
 }
 
-export function hasAnyMove(grid: Grid): boolean {
-    for (const pos of getAllValidPositions()) {
-        if (grid[pos.row][pos.col].color < 0) continue;
-        for (const next of neighbors(pos)) {
+export function hasAnyMove(grid: Grid, rules: RuleSet): boolean {
+    for (const pos of getAllValidPositions(rules)) {
+        if (grid[pos.row][pos.col].color < 0 || isFrozen(grid, pos)) continue;
+        for (const next of neighbors(pos, rules)) {
             if (grid[next.row][next.col].color === EMPTY_COLOR) return true;
         }
     }
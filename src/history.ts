@@ -0,0 +1,48 @@
+/**
+ * Bounded undo / redo stack of full snapshots.
+ *
+ * Callers push the snapshot taken *before* each change; `undo` and `redo`
+ * take the current snapshot so it can be moved to the opposite stack.
+ */
+export class UndoHistory<T> {
+    private readonly limit: number;
+    private undoStack: T[] = [];
+    private redoStack: T[] = [];
+
+    constructor(limit: number) {
+        this.limit = limit;
+    }
+
+    push(snapshot: T) {
+        this.undoStack.push(snapshot);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    undo(current: T): T | null {
+        const previous = this.undoStack.pop();
+        if (previous === undefined) return null;
+        this.redoStack.push(current);
+        return previous;
+    }
+
+    redo(current: T): T | null {
+        const next = this.redoStack.pop();
+        if (next === undefined) return null;
+        this.undoStack.push(current);
+        return next;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -0,0 +1,250 @@
+import { getGridSize, HEX_DIRS, isValidCell, type Position, type RuleSet } from "./game";
+
+/** Indices into HEX_DIRS */
+export enum HexDir {
+    E,
+    NE,
+    NW,
+    W,
+    SW,
+    SE,
+}
+
+export type NavAction =
+    | { type: "move"; dir: HexDir }
+    | { type: "vertical"; up: boolean } // zig-zags between the two diagonals
+    | { type: "confirm" }
+    | { type: "cancel" };
+
+/*
+ * Keyboard layout:
+ *   Q ↖  W ↑  E ↗
+ *   A ←       D →
+ *   Z ↙  S ↓  C ↘
+ * Arrows move left/right and up/down; Enter/Space confirm; Escape cancels.
+ * A focused button or select keeps Enter, Space and the arrows until Escape.
+ */
+const KEY_ACTIONS: Record<string, NavAction> = {
+    q: { type: "move", dir: HexDir.NW },
+    e: { type: "move", dir: HexDir.NE },
+    a: { type: "move", dir: HexDir.W },
+    d: { type: "move", dir: HexDir.E },
+    z: { type: "move", dir: HexDir.SW },
+    c: { type: "move", dir: HexDir.SE },
+    w: { type: "vertical", up: true },
+    s: { type: "vertical", up: false },
+    arrowleft: { type: "move", dir: HexDir.W },
+    arrowright: { type: "move", dir: HexDir.E },
+    arrowup: { type: "vertical", up: true },
+    arrowdown: { type: "vertical", up: false },
+    enter: { type: "confirm" },
+    " ": { type: "confirm" },
+    escape: { type: "cancel" },
+};
+
+export function keyToNavAction(e: KeyboardEvent): NavAction | null {
+    if (e.ctrlKey || e.metaKey || e.altKey) return null;
+    return KEY_ACTIONS[e.key.toLowerCase()] ?? null;
+}
+
+/** Step in a direction, skipping over holes; null when the board edge is reached */
+function stepToValid(pos: Position, dir: HexDir, rules: RuleSet): Position | null {
+    const [dq, dr] = HEX_DIRS[dir];
+    const size = getGridSize(rules);
+    let next = { row: pos.row + dr, col: pos.col + dq };
+    while (next.row >= 0 && next.row < size && next.col >= 0 && next.col < size) {
+        if (isValidCell(next, rules)) return next;
+        next = { row: next.row + dr, col: next.col + dq };
+    }
+    return null;
+}
+
+/**
+ * Diagonals to try for a vertical step. Even and odd rows alternate so that
+ * repeated presses stay in one column and up/down are exact inverses.
+ */
+function verticalDirs(pos: Position, up: boolean): HexDir[] {
+    const even = pos.row % 2 === 0;
+    if (up) return even ? [HexDir.NW, HexDir.NE] : [HexDir.NE, HexDir.NW];
+    return even ? [HexDir.SW, HexDir.SE] : [HexDir.SE, HexDir.SW];
+}
+
+export function moveCursor(pos: Position, action: NavAction, rules: RuleSet): Position {
+    if (action.type !== "move" && action.type !== "vertical") return pos;
+    const dirs = action.type === "move" ? [action.dir] : verticalDirs(pos, action.up);
+    for (const dir of dirs) {
+        const next = stepToValid(pos, dir, rules);
+        if (next) return next;
+    }
+    return pos;
+}
+
+// ─── Gamepad ─────────────────────────────────────────────────────────────────
+
+const STICK_DEADZONE = 0.5;
+const REPEAT_DELAY = 320; // ms before a held direction starts repeating
+const REPEAT_INTERVAL = 140; // ms between repeats
+
+/** Map a stick vector to the nearest of the six hex directions */
+function stickDirection(x: number, y: number): HexDir {
+    // Gamepad Y axis points down; HexDir order runs counter-clockwise in 60° steps from east
+    const angle = Math.atan2(-y, x);
+    return (((Math.round(angle / (Math.PI / 3)) % 6) + 6) % 6) as HexDir;
+}
+
+/**
+ * Polls the Gamepad API (standard mapping) and turns button / stick state
+ * into navigation actions with key-repeat for held directions.
+ */
+export class GamepadNavigator {
+    /** Held input id → time of its next repeat */
+    private held = new Map<string, number>();
+
+    poll(now: number): NavAction[] {
+        const active = new Map<string, NavAction>();
+        const pads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+        for (const pad of pads) {
+            if (!pad) continue;
+            const pressed = (idx: number) => !!pad.buttons[idx]?.pressed;
+            if (pressed(0)) active.set("a", { type: "confirm" });
+            if (pressed(1)) active.set("b", { type: "cancel" });
+            if (pressed(12)) active.set("up", { type: "vertical", up: true });
+            if (pressed(13)) active.set("down", { type: "vertical", up: false });
+            if (pressed(14)) active.set("left", { type: "move", dir: HexDir.W });
+            if (pressed(15)) active.set("right", { type: "move", dir: HexDir.E });
+
+            const x = pad.axes[0] ?? 0;
+            const y = pad.axes[1] ?? 0;
+            if (Math.hypot(x, y) > STICK_DEADZONE) {
+                const dir = stickDirection(x, y);
+                active.set(`stick${dir}`, { type: "move", dir });
+            }
+        }
+
+        const actions: NavAction[] = [];
+        for (const [id, action] of active) {
+            const repeatAt = this.held.get(id);
+            const repeats = action.type === "move" || action.type === "vertical";
+            if (repeatAt === undefined) {
+                actions.push(action);
+                this.held.set(id, repeats ? now + REPEAT_DELAY : Infinity);
+            } else if (now >= repeatAt) {
+                actions.push(action);
+                this.held.set(id, now + REPEAT_INTERVAL);
+            }
+        }
+        for (const id of [...this.held.keys()]) {
+            if (!active.has(id)) this.held.delete(id);
+        }
+        return actions;
+    }
+}
+
+// ─── Pointer gestures ────────────────────────────────────────────────────────
+
+const DRAG_THRESHOLD = 10; // px of movement before a press becomes a drag
+const LONG_PRESS_MS = 500;
+
+export interface GestureHandlers {
+    /** Board cell under a client-space point */
+    cellAt(clientX: number, clientY: number): Position | null;
+    /** Return false to refuse dragging from this cell */
+    onDragStart(from: Position): boolean;
+    onDragMove(from: Position, over: Position | null): void;
+    onDragEnd(from: Position, over: Position | null): void;
+    onDragCancel(): void;
+    onLongPress(pos: Position): void;
+    onLongPressEnd(): void;
+}
+
+/**
+ * Recognizes drag and long-press on the board with pointer events. Plain taps
+ * are left to the regular `click` handler; after a drag or long-press the
+ * following click must be skipped via `consumeClick()`.
+ */
+export class PointerGestures {
+    private readonly target: HTMLElement;
+    private readonly handlers: GestureHandlers;
+    private pointerId: number | null = null;
+    private start: Position | null = null;
+    private startX = 0;
+    private startY = 0;
+    private dragging = false;
+    private longPressed = false;
+    private longPressTimer: ReturnType<typeof setTimeout> | undefined;
+    private suppressClick = false;
+
+    constructor(target: HTMLElement, handlers: GestureHandlers) {
+        this.target = target;
+        this.handlers = handlers;
+        target.addEventListener("pointerdown", (e) => this.onPointerDown(e));
+        target.addEventListener("pointermove", (e) => this.onPointerMove(e));
+        target.addEventListener("pointerup", (e) => this.onPointerUp(e));
+        target.addEventListener("pointercancel", (e) => this.onPointerCancel(e));
+        // Long-press would otherwise open the context menu on touch devices
+        target.addEventListener("contextmenu", (e) => e.preventDefault());
+    }
+
+    /** True (once) when the last click belongs to a drag or long-press */
+    consumeClick(): boolean {
+        const suppress = this.suppressClick;
+        this.suppressClick = false;
+        return suppress;
+    }
+
+    private onPointerDown(e: PointerEvent) {
+        if (this.pointerId !== null) return; // ignore additional fingers
+        if (e.pointerType === "mouse" && e.button !== 0) return;
+        this.pointerId = e.pointerId;
+        this.startX = e.clientX;
+        this.startY = e.clientY;
+        this.start = this.handlers.cellAt(e.clientX, e.clientY);
+        this.dragging = false;
+        this.longPressed = false;
+        this.suppressClick = false;
+        this.target.setPointerCapture(e.pointerId);
+
+        const start = this.start;
+        if (start) {
+            this.longPressTimer = setTimeout(() => {
+                this.longPressed = true;
+                this.handlers.onLongPress(start);
+            }, LONG_PRESS_MS);
+        }
+    }
+
+    private onPointerMove(e: PointerEvent) {
+        if (e.pointerId !== this.pointerId || !this.start || this.longPressed) return;
+        if (!this.dragging) {
+            if (Math.hypot(e.clientX - this.startX, e.clientY - this.startY) < DRAG_THRESHOLD) return;
+            clearTimeout(this.longPressTimer);
+            if (!this.handlers.onDragStart(this.start)) {
+                this.start = null;
+                return;
+            }
+            this.dragging = true;
+        }
+        this.handlers.onDragMove(this.start, this.handlers.cellAt(e.clientX, e.clientY));
+    }
+
+    private onPointerUp(e: PointerEvent) {
+        if (e.pointerId !== this.pointerId) return;
+        clearTimeout(this.longPressTimer);
+        if (this.dragging && this.start) {
+            this.handlers.onDragEnd(this.start, this.handlers.cellAt(e.clientX, e.clientY));
+            this.suppressClick = true;
+        } else if (this.longPressed) {
+            this.handlers.onLongPressEnd();
+            this.suppressClick = true;
+        }
+        this.pointerId = null;
+    }
+
+    private onPointerCancel(e: PointerEvent) {
+        if (e.pointerId !== this.pointerId) return;
+        clearTimeout(this.longPressTimer);
+        if (this.dragging) this.handlers.onDragCancel();
+        if (this.longPressed) this.handlers.onLongPressEnd();
+        this.pointerId = null;
+    }
+}
@@ -0,0 +1,70 @@
+import type { BoardLayout, Position } from "./game";
+import bastions from "./layouts/bastions.json";
+import donut from "./layouts/donut.json";
+import twinHoles from "./layouts/twin-holes.json";
+
+/**
+ * JSON layout format. Each string in `rows` is one storage row with one
+ * character per column: "." is a playable cell, "#" a wall and anything else
+ * (usually a space) a hole. Rows are axial r and columns axial q, so a regular
+ * hexagon appears skewed:
+ *
+ *     "  ...",
+ *     " ....",
+ *     ".. ..",
+ *     "....",
+ *     "..."
+ */
+export interface LayoutData {
+    id: string;
+    name: string;
+    rows: string[];
+}
+
+/** Build a layout from JSON data; returns null when the data is malformed */
+export function parseLayout(data: unknown): BoardLayout | null {
+    if (!data || typeof data !== "object") return null;
+    const { id, name, rows } = data as Partial<LayoutData>;
+    if (typeof id !== "string" || id === "" || typeof name !== "string") return null;
+    if (!Array.isArray(rows) || !rows.every((row) => typeof row === "string")) return null;
+
+    const cells: Position[] = [];
+    const walls: Position[] = [];
+    rows.forEach((line, row) => {
+        for (let col = 0; col < line.length; col++) {
+            if (line[col] === ".") cells.push({ row, col });
+            else if (line[col] === "#") walls.push({ row, col });
+        }
+    });
+    // A board needs room for at least one move
+    if (cells.length < 2) return null;
+
+    const size = Math.max(rows.length, ...rows.map((row) => row.length));
+    return { id, name, size, cells, walls };
+}
+
+/** Regular hexagon of the given radius, optionally without its centre cell */
+export function hexLayout(id: string, name: string, radius: number, centreHole: boolean): BoardLayout {
+    const cells: Position[] = [];
+    const size = radius * 2 + 1;
+    for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+            const q = col - radius;
+            const r = row - radius;
+            if (Math.max(Math.abs(q), Math.abs(r), Math.abs(q + r)) > radius) continue;
+            if (centreHole && q === 0 && r === 0) continue;
+            cells.push({ row, col });
+        }
+    }
+    return { id, name, size, cells, walls: [] };
+}
+
+function builtInLayout(data: LayoutData): BoardLayout {
+    const layout = parseLayout(data);
+    if (!layout) throw new Error(`Invalid built-in layout "${data.id}"`);
+    return layout;
+}
+
+export const DONUT_LAYOUT = builtInLayout(donut);
+export const TWIN_HOLES_LAYOUT = builtInLayout(twinHoles);
+export const BASTIONS_LAYOUT = builtInLayout(bastions);
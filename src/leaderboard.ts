@@ -0,0 +1,79 @@
+export const LEADERBOARD_SIZE = 5;
+
+export interface LeaderboardEntry {
+    score: number;
+    /** Finish time (epoch ms); 0 for entries migrated from the old number-only format */
+    date: number;
+    moves: number;
+    biggestClear: number;
+    maxCombo: number;
+    durationMs: number;
+    hintsUsed: number;
+}
+
+/** Entries carried over from the old format have no metadata */
+export function isLegacyEntry(entry: LeaderboardEntry): boolean {
+    return entry.date === 0;
+}
+
+function toEntry(item: unknown): LeaderboardEntry | null {
+    // Old format: bare score numbers
+    if (typeof item === "number" || typeof item === "string") {
+        const score = Number(item);
+        if (!Number.isFinite(score) || score < 0) return null;
+        return { score, date: 0, moves: 0, biggestClear: 0, maxCombo: 0, durationMs: 0, hintsUsed: 0 };
+    }
+    if (!item || typeof item !== "object") return null;
+    const raw = item as Record<string, unknown>;
+    const score = Number(raw.score);
+    if (!Number.isFinite(score) || score < 0) return null;
+    return {
+        score,
+        date: Number(raw.date) || 0,
+        moves: Number(raw.moves) || 0,
+        biggestClear: Number(raw.biggestClear) || 0,
+        maxCombo: Number(raw.maxCombo) || 0,
+        durationMs: Number(raw.durationMs) || 0,
+        hintsUsed: Number(raw.hintsUsed) || 0,
+    };
+}
+
+function storeLeaderboard(key: string, entries: LeaderboardEntry[]) {
+    localStorage.setItem(key, JSON.stringify(entries.slice(0, LEADERBOARD_SIZE)));
+}
+
+/** Read a leaderboard, upgrading number-only data to full entries in place */
+export function getLeaderboard(key: string): LeaderboardEntry[] {
+    const raw = localStorage.getItem(key);
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        if (!Array.isArray(parsed)) return [];
+        const entries = parsed
+            .map(toEntry)
+            .filter((entry): entry is LeaderboardEntry => entry !== null)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, LEADERBOARD_SIZE);
+        if (parsed.some((item) => typeof item !== "object")) storeLeaderboard(key, entries);
+        return entries;
+    } catch {
+        return [];
+    }
+}
+
+/** Add an entry and return the stored list */
+export function submitLeaderboard(key: string, entry: LeaderboardEntry): LeaderboardEntry[] {
+    const entries = getLeaderboard(key);
+    entries.push(entry);
+    // Stable sort keeps older entries ahead on ties
+    entries.sort((a, b) => b.score - a.score);
+    storeLeaderboard(key, entries);
+    return entries.slice(0, LEADERBOARD_SIZE);
+}
+
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
@@ -0,0 +1,283 @@
+import { GameEngine, type EngineSetup, type GameState } from "./engine";
+import {
+    createEmptyGrid,
+    isValidCell,
+    JOKER_COLOR,
+    type CellColor,
+    type Grid,
+    type Position,
+    type RuleSet,
+} from "./game";
+import { getVariant } from "./variants";
+
+export type LevelGoal =
+    /** Leave no cell of `color` on the board */
+    | { type: "clear-color"; color: CellColor }
+    /** Reach `points` within the move limit */
+    | { type: "score"; points: number }
+    /** Include every target cell in a clear */
+    | { type: "clear-targets"; targets: Position[] };
+
+export interface Level {
+    id: string;
+    name: string;
+    /** Variant providing the board and match rules */
+    variant: string;
+    /** Seeds where spawned cells land */
+    seed: number;
+    /**
+     * Starting board in storage rows, laid out like a board layout file: a digit
+     * is a cell of that color, "*" a joker, "." an empty cell and a space is off
+     * the board.
+     */
+    grid: string[];
+    /** Every color that will spawn, in order, written like `grid` cells */
+    spawns: string;
+    /** Move limit; running out without meeting the goal fails the level */
+    moves: number;
+    goal: LevelGoal;
+    /** Most moves that still earn two and three stars */
+    stars: [two: number, three: number];
+}
+
+export type LevelStatus = "playing" | "won" | "lost";
+
+const PROGRESS_KEY = "atomicon_levels";
+
+export const LEVELS: readonly Level[] = [
+    {
+        id: "first-match",
+        name: "First match",
+        variant: "compact",
+        seed: 11,
+        grid: [
+            "   ....",
+            "  .....",
+            " 000...",
+            "... ...",
+            "......",
+            "0....",
+            "....",
+        ],
+        spawns: "12341234",
+        moves: 3,
+        goal: { type: "clear-color", color: 0 },
+        stars: [2, 1],
+    },
+    {
+        id: "double-up",
+        name: "Double up",
+        variant: "compact",
+        seed: 12,
+        grid: [
+            "   111.",
+            "  ....2",
+            " .3....",
+            "... .4.",
+            "222...",
+            ".....",
+            "1...",
+        ],
+        spawns: "3434343434",
+        moves: 4,
+        goal: { type: "score", points: 16 },
+        stars: [3, 2],
+    },
+    {
+        id: "bullseye",
+        name: "Bullseye",
+        variant: "compact",
+        seed: 13,
+        grid: [
+            "   4...",
+            "  .....",
+            " .33.4.",
+            "... .4.",
+            ".3..4.",
+            ".....",
+            "...3",
+        ],
+        spawns: "0120120120",
+        moves: 5,
+        goal: {
+            type: "clear-targets",
+            targets: [
+                { row: 3, col: 2 },
+                { row: 3, col: 4 },
+            ],
+        },
+        stars: [3, 2],
+    },
+    {
+        id: "wild-card",
+        name: "Wild card",
+        variant: "compact",
+        seed: 14,
+        grid: [
+            "   ....",
+            "  333..",
+            " ......",
+            "..1 .23",
+            "33....",
+            "3....",
+            "...*",
+        ],
+        spawns: "0124012401",
+        moves: 5,
+        goal: { type: "clear-color", color: 3 },
+        stars: [3, 2],
+    },
+    {
+        id: "crowded",
+        name: "Crowded",
+        variant: "classic",
+        seed: 15,
+        grid: [
+            "    0000.",
+            "   .....1",
+            "  ..5...2",
+            " 2.....3.",
+            "22.. ..33",
+            "2.6....3",
+            "3..4...",
+            ".1111.",
+            "0....",
+        ],
+        spawns: "456456456456",
+        moves: 6,
+        goal: { type: "score", points: 40 },
+        stars: [5, 4],
+    },
+    {
+        id: "two-targets",
+        name: "Two targets",
+        variant: "classic",
+        seed: 16,
+        grid: [
+            "    ....5",
+            "   ..4...",
+            "  ...44..",
+            " ........",
+            ".... ....",
+            "..0.....",
+            "..5.54.",
+            "..55..",
+            "..4..",
+        ],
+        spawns: "660123601236",
+        moves: 6,
+        goal: {
+            type: "clear-targets",
+            targets: [
+                { row: 2, col: 4 },
+                { row: 6, col: 3 },
+            ],
+        },
+        stars: [4, 3],
+    },
+];
+
+function parseCell(char: string, rules: RuleSet): CellColor | null {
+    if (char === "*") return JOKER_COLOR;
+    const color = Number(char);
+    return /^\d$/.test(char) && color < rules.numColors ? color : null;
+}
+
+/** The level's rule set; throws when it names an unknown variant */
+export function getLevelRules(level: Level): RuleSet {
+    const rules = getVariant(level.variant);
+    if (!rules) throw new Error(`Level "${level.id}" uses unknown variant "${level.variant}"`);
+    return rules;
+}
+
+/** Starting board and spawn sequence; throws when the level data does not fit its board */
+export function createLevelSetup(level: Level, rules: RuleSet): EngineSetup {
+    const fail = (reason: string): never => {
+        throw new Error(`Invalid level "${level.id}": ${reason}`);
+    };
+
+    const grid: Grid = createEmptyGrid(rules);
+    level.grid.forEach((line, row) => {
+        for (let col = 0; col < line.length; col++) {
+            const char = line[col];
+            if (char === " ") continue;
+            if (!isValidCell({ row, col }, rules)) fail(`${row},${col} is off the board`);
+            if (char === ".") continue;
+            grid[row][col].color = parseCell(char, rules) ?? fail(`unknown cell "${char}"`);
+        }
+    });
+
+    if (level.goal.type === "clear-targets") {
+        for (const pos of level.goal.targets) {
+            if (!isValidCell(pos, rules)) fail(`target ${pos.row},${pos.col} is off the board`);
+            grid[pos.row][pos.col].target = true;
+        }
+    }
+
+    const spawns = [...level.spawns].map((char) => parseCell(char, rules) ?? fail(`unknown spawn "${char}"`));
+    return { grid, spawns };
+}
+
+export function createLevelEngine(level: Level): GameEngine {
+    const rules = getLevelRules(level);
+    return new GameEngine(level.seed, rules, createLevelSetup(level, rules));
+}
+
+function isGoalMet(goal: LevelGoal, state: GameState): boolean {
+    const cells = state.grid.flat();
+    switch (goal.type) {
+        case "clear-color":
+            return !cells.some((cell) => cell.color === goal.color);
+        case "score":
+            return state.score >= goal.points;
+        case "clear-targets":
+            return !cells.some((cell) => cell.target);
+    }
+}
+
+/** Checked after every turn; meeting the goal wins even when the board locks up on the same move */
+export function getLevelStatus(level: Level, state: GameState): LevelStatus {
+    if (isGoalMet(level.goal, state)) return "won";
+    return state.gameOver || state.moveCount >= level.moves ? "lost" : "playing";
+}
+
+export function getLevelStars(level: Level, movesUsed: number): number {
+    const [two, three] = level.stars;
+    return movesUsed <= three ? 3 : movesUsed <= two ? 2 : 1;
+}
+
+/** Earned stars filled, the rest outlined */
+export function formatStars(stars: number): string {
+    return "★".repeat(stars) + "☆".repeat(3 - stars);
+}
+
+// ─── Progress ────────────────────────────────────────────────────────────────
+
+/** Best star count per completed level id */
+export function getLevelProgress(): Record<string, number> {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? "{}") as unknown;
+        if (!parsed || typeof parsed !== "object") return {};
+        const progress: Record<string, number> = {};
+        for (const [id, stars] of Object.entries(parsed)) {
+            if (typeof stars === "number" && stars >= 1 && stars <= 3) progress[id] = stars;
+        }
+        return progress;
+    } catch {
+        return {};
+    }
+}
+
+/** Store a completed level; returns true when it beats the previous best */
+export function recordLevelResult(id: string, stars: number): boolean {
+    const progress = getLevelProgress();
+    if ((progress[id] ?? 0) >= stars) return false;
+    progress[id] = stars;
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+    return true;
+}
+
+/** Levels unlock in order: the first is always open, each later one once its predecessor is completed */
+export function isLevelUnlocked(index: number, progress: Record<string, number>): boolean {
+    return index === 0 || (progress[LEVELS[index - 1]?.id] ?? 0) > 0;
+}
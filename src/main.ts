@@ -1,21 +1,75 @@
 import {
-    checkLines,
-    countOccupied,
-    createEmptyGrid,
-    findPath,
-    generateNextColors,
-    getSpawnCount,
-    hasAnyMove,
-    isBoardFull,
-    PREVIEW_SIZE,
+    GameEngine,
+    getComboBonus,
+    POWER_UP_CLEAR_SIZE,
+    POWER_UP_COMBO,
+    VERSUS_PLAYERS,
+    type ClearResult,
+    type GameState,
+    type PowerUp,
+    type PowerUpAction,
+    type PowerUpResult,
+    type TurnResult,
+} from "./engine";
+import {
+    checkMoveOutcome,
+    cloneGrid,
+    findReachable,
+    getAllValidPositions,
+    getGroupAt,
+    isFrozen,
+    moveCell,
+    pathTo,
+    posKey,
+    previewMove,
     removeMatches,
-    spawnCells,
-    VALID_CELL_COUNT,
-    type CellColor,
+    swapCells,
     type Grid,
     type Position,
+    type Reachability,
+    type RuleSet,
 } from "./game";
-import { Renderer } from "./renderer";
+import { UndoHistory } from "./history";
+import { GamepadNavigator, keyToNavAction, moveCursor, PointerGestures, type NavAction } from "./input";
+import { ACHIEVEMENTS, getAchievementStates, subscribeAchievements, type Achievement } from "./achievements";
+import { subscribeAnalytics } from "./analytics";
+import { BOT_NAMES, createBot, getBotView, type Bot, type BotName } from "./bot";
+import { drawBarChart, drawLineChart } from "./charts";
+import {
+    getDailyHistory,
+    getDailyResult,
+    getDailySeed,
+    getDailyStreak,
+    getDayKey,
+    storeDailyResult,
+    type DailyResult,
+} from "./daily";
+import { findBestMove } from "./evaluator";
+import { EventBus, type GameEvents } from "./events";
+import {
+    formatDuration,
+    getLeaderboard,
+    isLegacyEntry,
+    submitLeaderboard,
+    type LeaderboardEntry,
+} from "./leaderboard";
+import {
+    createLevelEngine,
+    formatStars,
+    getLevelProgress,
+    getLevelStars,
+    getLevelStatus,
+    isLevelUnlocked,
+    LEVELS,
+    recordLevelResult,
+    type Level,
+} from "./levels";
+import { randomSeed } from "./random";
+import { decodeReplay, encodeReplay, ReplayPlayer, ReplayRecorder, type Replay, type ReplayMove } from "./replay";
+import { clearSavedGame, loadSavedGame, storeSavedGame } from "./save";
+import { Renderer, type ScorePart } from "./renderer";
+import { averageScore, getLifetimeStats, medianScore, subscribeStats } from "./stats";
+import { CLASSIC, getVariant, VARIANTS } from "./variants";
 
 // ─── Sound FX + Generative Ambient Music ─────────────────────────────────────
 
@@ -579,6 +633,9 @@ enum Phase {
     MOVE_ANIM, // Playing movement animation
     REMOVE_ANIM, // Playing removal animation
     SPAWN_ANIM, // Playing spawn animation
+    POWER_SOURCE, // Waiting for the first cell a power-up acts on
+    POWER_TARGET, // Waiting for the destination or swap partner
+    POWER_ANIM, // Playing a power-up animation
     GAME_OVER,
 }
 
@@ -587,49 +644,307 @@ enum Phase {
 // Sound mode: 0=off, 1=effects only, 2=music only, 3=effects+music
 type SoundMode = 0 | 1 | 2 | 3;
 
+/** Global animation speed setting; autoplay and replay speeds multiply it */
+const ANIMATION_SPEEDS = { slow: 0.5, normal: 1, fast: 2, instant: Infinity };
+type AnimationSpeed = keyof typeof ANIMATION_SPEEDS;
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const AUTOPLAY_SPEEDS = [1, 2, 4, 8];
+const UNDO_LIMIT = 50;
+/** Hints available in a ranked game; casual games have no limit */
+const RANKED_HINT_LIMIT = 3;
+/** Blitz starting clock and the time each cleared line gives back */
+const BLITZ_TIME_MS = 90_000;
+const BLITZ_BONUS_PER_LINE_MS = 3_000;
+/** Moves in a limited-moves game */
+const MOVE_BUDGET = 30;
+/** Play time stops counting this long after the last input */
+const IDLE_AFTER_MS = 30_000;
+/** How long an achievement toast stays up */
+const TOAST_MS = 3500;
+
+/** Nonzero parts of a clear's score, in the order they are applied */
+function scoreParts(clear: ClearResult): ScorePart[] {
+    const { base, length, multiLine, joker, multiplier } = clear.breakdown;
+    const parts: ScorePart[] = [{ label: "Cells", value: `+${base}` }];
+    if (length > 0) parts.push({ label: "Length", value: `+${length}` });
+    if (multiLine > 0) parts.push({ label: "Lines", value: `+${multiLine}` });
+    if (joker > 0) parts.push({ label: "Jokers", value: `+${joker}` });
+    if (multiplier > 1) parts.push({ label: "Multiplier", value: `×${multiplier}` });
+    if (clear.comboBonus > 0) parts.push({ label: `Combo x${clear.combo}`, value: `+${clear.comboBonus}` });
+    return parts;
+}
+
+/** Celebration strength for a clear: 1 = 6 cells, 2 = 7 cells, 3 = 8+ cells, 0 = none */
+function celebrationTier(size: number): number {
+    return size >= 8 ? 3 : size >= 7 ? 2 : size >= 6 ? 1 : 0;
+}
+
+const POWER_UP_LABELS: Record<PowerUp, string> = {
+    teleport: "Teleport",
+    shuffle: "Shuffle",
+    delete: "Delete",
+    swap: "Swap",
+};
+
+type LeaderboardBoard = "standard" | "undo" | "blitz" | "moves";
+
+/** Undo snapshot: engine state plus the replay moves that led to it */
+interface HistoryEntry {
+    state: GameState;
+    moves: ReplayMove[];
+    scoreLog: ScoreLogEntry[];
+}
+
+/** A clear as listed in the post-game summary */
+interface ScoreLogEntry {
+    /** Move count when the clear happened; power-up clears share the preceding move's */
+    move: number;
+    clear: ClearResult;
+}
+
+/** Replay being shown instead of a live game */
+interface Playback {
+    player: ReplayPlayer;
+    playing: boolean;
+    speed: number;
+    timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/** Bot driving the live game */
+interface Autoplay {
+    bot: Bot;
+    timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/** Modes offered in the new game panel, playable on every variant */
+type ArcadeMode = "endless" | "blitz" | "moves" | "versus";
+
+/** What the live game counts towards */
+type GameMode = { type: ArcadeMode } | { type: "level"; level: Level } | { type: "daily"; day: string };
+
+const ENDLESS: GameMode = { type: "endless" };
+const ARCADE_MODES: readonly ArcadeMode[] = ["endless", "blitz", "moves", "versus"];
+
+/** Header readout of one hot-seat player */
+interface PlayerStat {
+    root: HTMLElement;
+    score: HTMLElement;
+    combo: HTMLElement;
+}
+
+function playerName(index: number): string {
+    return `Player ${index + 1}`;
+}
+
 class AtomiconGame {
+    private engine: GameEngine;
+    /** Grid shown by the renderer; trails the engine state while a turn is animated */
     private grid: Grid;
+    /** Turn currently being animated */
+    private turn: TurnResult | null = null;
     private renderer: Renderer;
     private sfx = new SFX();
     private phase = Phase.SELECT;
     private selected: Position | null = null;
+    /** Empty cells reachable from `selected` */
+    private reach: Reachability | null = null;
+    /** Keyboard / gamepad focus; null while the mouse is in use */
+    private cursor: Position | null = null;
+    private gamepad = new GamepadNavigator();
+    private gestures: PointerGestures;
+    /** Displayed score and combo; catch up with the engine as clears are animated */
     private score = 0;
     private combo = 0;
-    private moveCount = 0;
+    /** Power-up waiting for its target cells */
+    private targeting: { powerUp: PowerUp; first: Position | null } | null = null;
+    /** Power-up being animated; its clear plays out like a turn's */
+    private powerUse: PowerUpResult | null = null;
+    /** Displayed score of each hot-seat player; empty in single-player games */
+    private playerScores: number[] = [];
     private best: number;
-    private nextColors: CellColor[] = [];
-    private pendingRemove: Set<string> | null = null;
-    private pendingLineScore = 0;
-    private pendingLineCount = 0;
     private soundMode: SoundMode = 3;
+    private recorder: ReplayRecorder;
+    private lastReplay: Replay | null;
+    private playback: Playback | null = null;
+    private autoplay: Autoplay | null = null;
+    private botName: BotName;
+    private autoplaySpeed = 1;
+    private animationSpeed: AnimationSpeed = "normal";
+    /** The bot made a move in this game; its score is not ranked */
+    private autoplayUsed = false;
+    private mode: GameMode = ENDLESS;
+    /** Mode picked in the new game panel */
+    private arcadeMode: ArcadeMode;
+    /** Blitz time left; only runs down in `Phase.SELECT` */
+    private clockMs = 0;
+    private lastFrameTime = performance.now();
+    private history = new UndoHistory<HistoryEntry>(UNDO_LIMIT);
+    /** Lifecycle events; sound, rendering, stats, achievements and analytics each subscribe on their own */
+    private readonly events = new EventBus<GameEvents>();
+    /** Combo last published through `comboChanged` */
+    private shownCombo = 0;
+    /** Every clear of the game on the board, for the post-game summary */
+    private scoreLog: ScoreLogEntry[] = [];
+    /** Ranked play disables undo; the setting takes effect with the next game */
+    private ranked: boolean;
+    /** The live game is ranked: started with the setting on, or a daily challenge; its hints are limited */
+    private rankedGame = false;
+    private undoAllowed = true;
+    private undoUsed = false;
+    private hintsUsed = 0;
+    /** Active play time; see `tickPlayTime` */
+    private playTimeMs = 0;
+    private lastInputTime = performance.now();
+    /** Finish time of the last submitted game, highlighted in the leaderboard */
+    private lastEntryDate: number | null = null;
 
     // DOM refs
+    private headerEl: HTMLElement;
+    private playerStats: PlayerStat[];
     private scoreEl: HTMLElement;
     private bestEl: HTMLElement;
     private messageEl: HTMLElement;
     private nextDots: HTMLElement[];
     private overlay: HTMLElement;
+    private overlayTitleEl: HTMLElement;
     private finalScoreEl: HTMLElement;
     private soundToggleBtn: HTMLButtonElement;
-
-    private readonly leaderboardKey = "atomicon_leaderboard";
+    private replayBar: HTMLElement;
+    private replayPlayBtn: HTMLButtonElement;
+    private replaySpeedBtn: HTMLButtonElement;
+    private replayProgressEl: HTMLElement;
+    private powerUpButtons: HTMLButtonElement[];
+    private undoBtn: HTMLButtonElement;
+    private redoBtn: HTMLButtonElement;
+    private rankedBtn: HTMLButtonElement;
+    private hintBtn: HTMLButtonElement;
+    private autoplayBtn: HTMLButtonElement;
+    private botSelect: HTMLSelectElement;
+    private autoplaySpeedBtn: HTMLButtonElement;
+    private animationSpeedBtn: HTMLButtonElement;
+    private undoNoteEl: HTMLElement;
+    private leaderboardPanel: HTMLElement;
+    private leaderboardRows: HTMLElement;
+    private leaderboardEmpty: HTMLElement;
+    private leaderboardVariantEl: HTMLElement;
+    private streakEl: HTMLElement;
+    private dailyPanel: HTMLElement;
+    private dailyStatusEl: HTMLElement;
+    private dailyPlayBtn: HTMLButtonElement;
+    private dailyRows: HTMLElement;
+    private dailyEmpty: HTMLElement;
+    private statsPanel: HTMLElement;
+    private statsSummaryEl: HTMLElement;
+    private statsScoreChart: HTMLCanvasElement;
+    private statsSizeChart: HTMLCanvasElement;
+    private statsColorChart: HTMLCanvasElement;
+    private summaryPanel: HTMLElement;
+    private summaryRows: HTMLElement;
+    private summaryNoteEl: HTMLElement;
+    private achievementsPanel: HTMLElement;
+    private achievementList: HTMLElement;
+    private achievementsCountEl: HTMLElement;
+    private toastStack: HTMLElement;
+    private newGamePanel: HTMLElement;
+    private variantList: HTMLElement;
+    private levelsPanel: HTMLElement;
+    private levelList: HTMLElement;
+    private modeBar: HTMLElement;
+    private modeNameEl: HTMLElement;
+    private modeGoalEl: HTMLElement;
+    private modeCounterEl: HTMLElement;
+    private levelOverlay: HTMLElement;
+    private levelResultEl: HTMLElement;
+    private levelStarsEl: HTMLElement;
+    private levelDetailEl: HTMLElement;
+    private levelNoteEl: HTMLElement;
+    private levelPrimaryBtn: HTMLButtonElement;
+    private levelRetryBtn: HTMLButtonElement;
+
+    private readonly leaderboardKeys: Record<LeaderboardBoard, string> = {
+        standard: "atomicon_leaderboard",
+        // Scores from games where undo was used are kept apart
+        undo: "atomicon_leaderboard_undo",
+        blitz: "atomicon_leaderboard_blitz",
+        moves: "atomicon_leaderboard_moves",
+    };
+    private readonly lastReplayKey = "atomicon_last_replay";
 
     constructor() {
         const canvas = document.getElementById("game-canvas") as HTMLCanvasElement;
-        this.renderer = new Renderer(canvas);
-        this.grid = createEmptyGrid();
-
+        const rules = getVariant(localStorage.getItem("atomicon_variant") ?? "") ?? CLASSIC;
+        const seed = randomSeed();
+        this.renderer = new Renderer(canvas, rules);
+        this.engine = new GameEngine(seed, rules);
+        this.recorder = new ReplayRecorder(seed, rules);
+        this.grid = cloneGrid(this.engine.state.grid);
+
+        this.headerEl = document.getElementById("header")!;
+        this.playerStats = [...this.headerEl.querySelectorAll<HTMLElement>(".player-stat")].map((root) => ({
+            root,
+            score: root.querySelector(".stat-value")!,
+            combo: root.querySelector(".player-combo")!,
+        }));
         this.scoreEl = document.getElementById("score")!;
         this.bestEl = document.getElementById("best")!;
         this.messageEl = document.getElementById("message")!;
         this.overlay = document.getElementById("overlay")!;
+        this.overlayTitleEl = document.getElementById("overlay-title")!;
         this.finalScoreEl = document.getElementById("final-score")!;
         this.soundToggleBtn = document.getElementById("sound-toggle") as HTMLButtonElement;
+        this.replayBar = document.getElementById("replay-bar")!;
+        this.replayPlayBtn = document.getElementById("replay-play") as HTMLButtonElement;
+        this.replaySpeedBtn = document.getElementById("replay-speed") as HTMLButtonElement;
+        this.replayProgressEl = document.getElementById("replay-progress")!;
+        this.powerUpButtons = [...document.querySelectorAll<HTMLButtonElement>("#powerup-bar [data-power-up]")];
+        this.undoBtn = document.getElementById("undo-btn") as HTMLButtonElement;
+        this.redoBtn = document.getElementById("redo-btn") as HTMLButtonElement;
+        this.rankedBtn = document.getElementById("ranked-btn") as HTMLButtonElement;
+        this.hintBtn = document.getElementById("hint-btn") as HTMLButtonElement;
+        this.autoplayBtn = document.getElementById("autoplay-btn") as HTMLButtonElement;
+        this.botSelect = document.getElementById("bot-select") as HTMLSelectElement;
+        this.autoplaySpeedBtn = document.getElementById("autoplay-speed") as HTMLButtonElement;
+        this.animationSpeedBtn = document.getElementById("animation-speed-btn") as HTMLButtonElement;
+        this.undoNoteEl = document.getElementById("undo-note")!;
+        this.leaderboardPanel = document.getElementById("leaderboard-panel")!;
+        this.leaderboardRows = document.getElementById("leaderboard-rows")!;
+        this.leaderboardEmpty = document.getElementById("leaderboard-empty")!;
+        this.leaderboardVariantEl = document.getElementById("leaderboard-variant")!;
+        this.streakEl = document.getElementById("streak")!;
+        this.dailyPanel = document.getElementById("daily-panel")!;
+        this.dailyStatusEl = document.getElementById("daily-status")!;
+        this.dailyPlayBtn = document.getElementById("daily-play-btn") as HTMLButtonElement;
+        this.dailyRows = document.getElementById("daily-rows")!;
+        this.dailyEmpty = document.getElementById("daily-empty")!;
+        this.statsPanel = document.getElementById("stats-panel")!;
+        this.statsSummaryEl = document.getElementById("stats-summary")!;
+        this.statsScoreChart = document.getElementById("stats-score-chart") as HTMLCanvasElement;
+        this.statsSizeChart = document.getElementById("stats-size-chart") as HTMLCanvasElement;
+        this.statsColorChart = document.getElementById("stats-color-chart") as HTMLCanvasElement;
+        this.summaryPanel = document.getElementById("summary-panel")!;
+        this.summaryRows = document.getElementById("summary-rows")!;
+        this.summaryNoteEl = document.getElementById("summary-note")!;
+        this.achievementsPanel = document.getElementById("achievements-panel")!;
+        this.achievementList = document.getElementById("achievement-list")!;
+        this.achievementsCountEl = document.getElementById("achievements-count")!;
+        this.toastStack = document.getElementById("toast-stack")!;
+        this.newGamePanel = document.getElementById("new-game-panel")!;
+        this.variantList = document.getElementById("variant-list")!;
+        this.levelsPanel = document.getElementById("levels-panel")!;
+        this.levelList = document.getElementById("level-list")!;
+        this.modeBar = document.getElementById("mode-bar")!;
+        this.modeNameEl = document.getElementById("mode-name")!;
+        this.modeGoalEl = document.getElementById("mode-goal")!;
+        this.modeCounterEl = document.getElementById("mode-counter")!;
+        this.levelOverlay = document.getElementById("level-overlay")!;
+        this.levelResultEl = document.getElementById("level-result")!;
+        this.levelStarsEl = document.getElementById("level-stars")!;
+        this.levelDetailEl = document.getElementById("level-detail")!;
+        this.levelNoteEl = document.getElementById("level-note")!;
+        this.levelPrimaryBtn = document.getElementById("level-primary-btn") as HTMLButtonElement;
+        this.levelRetryBtn = document.getElementById("level-retry-btn") as HTMLButtonElement;
         this.nextDots = [];
-        for (let i = 0; i < PREVIEW_SIZE; i++) {
-            const dot = document.getElementById(`next${i}`);
-            if (dot) this.nextDots.push(dot);
-        }
 
         // Load sound mode from localStorage
         const savedSoundMode = localStorage.getItem("atomicon_sound_mode");
@@ -638,15 +953,89 @@ class AtomiconGame {
         }
         this.applySoundMode();
 
-        this.best = parseInt(localStorage.getItem("atomicon_best") || "0", 10);
+        this.best = this.loadBest(rules);
         this.bestEl.textContent = String(this.best);
 
+        const savedReplay = localStorage.getItem(this.lastReplayKey);
+        this.lastReplay = savedReplay ? decodeReplay(savedReplay) : null;
+        this.ranked = localStorage.getItem("atomicon_ranked") === "1";
+        const savedMode = localStorage.getItem("atomicon_mode") as ArcadeMode | null;
+        this.arcadeMode = savedMode && ARCADE_MODES.includes(savedMode) ? savedMode : "endless";
+        const savedAnimationSpeed = localStorage.getItem("atomicon_animation_speed") as AnimationSpeed | null;
+        if (savedAnimationSpeed && Object.keys(ANIMATION_SPEEDS).includes(savedAnimationSpeed)) {
+            this.animationSpeed = savedAnimationSpeed;
+        }
+        const savedBot = localStorage.getItem("atomicon_bot") as BotName | null;
+        this.botName = savedBot && BOT_NAMES.includes(savedBot) ? savedBot : "greedy";
+
         // Event listeners
         canvas.addEventListener("click", (e) => this.handleClick(e));
-        document.getElementById("new-game-btn")!.addEventListener("click", () => this.newGame());
+        canvas.addEventListener("pointermove", (e) => this.handleHover(e));
+        canvas.addEventListener("pointerleave", () => {
+            if (this.reach) this.renderer.setPathPreview(null);
+        });
+        this.gestures = new PointerGestures(canvas, {
+            cellAt: (x, y) => this.cellAtClient(x, y),
+            onDragStart: (from) => this.onDragStart(from),
+            onDragMove: (from, over) => this.onDragMove(from, over),
+            onDragEnd: (from, over) => this.onDragEnd(from, over),
+            onDragCancel: () => this.renderer.setPathPreview(null),
+            onLongPress: (pos) => this.inspectCell(pos),
+            onLongPressEnd: () => this.renderer.setInspect(null),
+        });
+        document.getElementById("new-game-btn")!.addEventListener("click", () => this.showNewGamePanel());
+        this.newGamePanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideNewGamePanel());
+        for (const tab of this.newGamePanel.querySelectorAll<HTMLButtonElement>("[data-mode]")) {
+            tab.addEventListener("click", () => this.selectArcadeMode(tab.dataset.mode as ArcadeMode));
+        }
+        document.getElementById("levels-btn")!.addEventListener("click", () => this.showLevelsPanel());
+        document.getElementById("daily-btn")!.addEventListener("click", () => this.showDailyPanel());
+        this.dailyPanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideDailyPanel());
+        this.dailyPlayBtn.addEventListener("click", () => this.startDaily());
+        this.levelsPanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideLevelsPanel());
+        this.levelPrimaryBtn.addEventListener("click", () => this.continueLevels());
+        this.levelRetryBtn.addEventListener("click", () => this.retryLevel());
+        document.getElementById("level-select-btn")!.addEventListener("click", () => this.showLevelsPanel());
+        document.getElementById("level-endless-btn")!.addEventListener("click", () => this.exitLevel());
         document.getElementById("play-again-btn")!.addEventListener("click", () => this.newGame());
         this.soundToggleBtn.addEventListener("click", () => this.cycleSoundMode());
+        document.getElementById("watch-replay-btn")!.addEventListener("click", () => {
+            if (this.lastReplay) this.startReplay(this.lastReplay);
+        });
+        document.getElementById("copy-replay-btn")!.addEventListener("click", () => this.copyReplayCode());
+        document.getElementById("load-replay-btn")!.addEventListener("click", () => this.loadReplayCode());
+        this.replayPlayBtn.addEventListener("click", () => this.toggleReplayPlaying());
+        document.getElementById("replay-step")!.addEventListener("click", () => this.stepReplay());
+        this.replaySpeedBtn.addEventListener("click", () => this.cycleReplaySpeed());
+        document.getElementById("replay-exit")!.addEventListener("click", () => this.exitReplay());
+        for (const button of this.powerUpButtons) {
+            button.addEventListener("click", () => this.startPowerUp(button.dataset.powerUp as PowerUp));
+        }
+        this.undoBtn.addEventListener("click", () => this.undo());
+        this.redoBtn.addEventListener("click", () => this.redo());
+        this.rankedBtn.addEventListener("click", () => this.toggleRanked());
+        this.hintBtn.addEventListener("click", () => this.showHint());
+        this.autoplayBtn.addEventListener("click", () => this.toggleAutoplay());
+        this.botSelect.addEventListener("change", () => this.changeBot(this.botSelect.value as BotName));
+        this.autoplaySpeedBtn.addEventListener("click", () => this.cycleAutoplaySpeed());
+        this.animationSpeedBtn.addEventListener("click", () => this.cycleAnimationSpeed());
+        document.getElementById("leaderboard-btn")!.addEventListener("click", () => this.showLeaderboard());
+        document.getElementById("overlay-leaderboard-btn")!.addEventListener("click", () => this.showLeaderboard());
+        this.leaderboardPanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideLeaderboard());
+        for (const tab of this.leaderboardPanel.querySelectorAll<HTMLButtonElement>("[data-board]")) {
+            tab.addEventListener("click", () => this.showLeaderboard(tab.dataset.board as LeaderboardBoard));
+        }
+        document.getElementById("stats-btn")!.addEventListener("click", () => this.showStatsPanel());
+        this.statsPanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideStatsPanel());
+        document.getElementById("overlay-summary-btn")!.addEventListener("click", () => this.showSummaryPanel());
+        this.summaryPanel.querySelector(".panel-close")!.addEventListener("click", () => this.hideSummaryPanel());
+        document.getElementById("achievements-btn")!.addEventListener("click", () => this.showAchievementsPanel());
+        const achievementsClose = this.achievementsPanel.querySelector(".panel-close")!;
+        achievementsClose.addEventListener("click", () => this.hideAchievementsPanel());
         window.addEventListener("keydown", (e) => this.handleHotkeys(e));
+        for (const type of ["keydown", "pointerdown"]) {
+            window.addEventListener(type, () => (this.lastInputTime = performance.now()), { capture: true });
+        }
 
         let resizeTimer: ReturnType<typeof setTimeout> | undefined;
         const scheduleResize = (delay = 150) => {
@@ -662,17 +1051,124 @@ class AtomiconGame {
         // Animation completion callback
         this.renderer.onAnimationComplete = () => this.onAnimComplete();
 
-        this.newGame();
+        this.subscribeSound();
+        this.subscribeRenderer();
+        this.subscribeScoreLog();
+        subscribeStats(this.events, () => this.tracksStats());
+        subscribeAchievements(
+            this.events,
+            () => this.tracksStats(),
+            (achievement) => this.announceAchievement(achievement),
+        );
+        subscribeAnalytics(this.events);
+
+        if (!this.resumeSavedGame()) this.newGame();
         this.loop();
+        this.syncStreak();
         this.syncSoundButton();
+        this.syncAutoplayControls();
+        this.applyAnimationSpeed();
         void this.sfx.unlock().then(() => {
             if (this.soundMode >= 2) this.sfx.startMusic();
         });
     }
 
     private handleHotkeys(e: KeyboardEvent) {
-        if (e.key.toLowerCase() === "m" || e.key.toLowerCase() === "s") {
+        const key = e.key.toLowerCase();
+        if (key === "escape" && this.isPanelOpen()) {
+            this.hideLeaderboard();
+            this.hideNewGamePanel();
+            this.hideLevelsPanel();
+            this.hideDailyPanel();
+            this.hideStatsPanel();
+            this.hideAchievementsPanel();
+            this.hideSummaryPanel();
+            return;
+        }
+        // Text fields keep every key, including their own undo
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        if (e.ctrlKey || e.metaKey) {
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                this.undo();
+            } else if (key === "y" || (key === "z" && e.shiftKey)) {
+                e.preventDefault();
+                this.redo();
+            }
+            return;
+        }
+        // Board keys stay inactive under panels and result overlays
+        if (document.querySelector(".panel.visible, .overlay.visible")) return;
+        if (key === "m") {
             this.cycleSoundMode();
+            return;
+        }
+        if (key === "h") {
+            this.showHint();
+            return;
+        }
+        if (key === "p") {
+            this.toggleAutoplay();
+            return;
+        }
+        const action = keyToNavAction(e);
+        // A focused button or select keeps Enter, Space and the arrows; letters still drive the board
+        const focusedControl = e.target instanceof HTMLButtonElement || e.target instanceof HTMLSelectElement;
+        if (focusedControl && (key === "enter" || key === " " || key.startsWith("arrow"))) return;
+        // Escape hands every key back to the board
+        if (focusedControl && key === "escape") (e.target as HTMLElement).blur();
+        if (action) {
+            e.preventDefault();
+            this.handleNavAction(action);
+        }
+    }
+
+    private handleNavAction(action: NavAction) {
+        if (this.isPanelOpen()) return;
+
+        if (action.type === "confirm") {
+            if (this.cursor) this.handleCellClick(this.cursor);
+            else this.showCursor();
+            return;
+        }
+
+        if (action.type === "cancel") {
+            if (this.isTargeting()) {
+                this.cancelPowerUp();
+            } else if (this.selected && this.phase === Phase.SELECT) {
+                this.setSelection(null);
+                this.setMessage("Select a cell to move");
+            }
+            return;
+        }
+
+        if (!this.cursor) {
+            this.showCursor();
+            return;
+        }
+        this.cursor = moveCursor(this.cursor, action, this.engine.rules);
+        this.renderer.setCursor(this.cursor);
+        this.previewPathTo(this.cursor);
+    }
+
+    private showCursor() {
+        this.cursor = this.selected ?? this.centreCell();
+        this.renderer.setCursor(this.cursor);
+    }
+
+    /** Playable cell nearest the middle of the layout */
+    private centreCell(): Position {
+        const cells = getAllValidPositions(this.engine.rules);
+        const row = cells.reduce((sum, pos) => sum + pos.row, 0) / cells.length;
+        const col = cells.reduce((sum, pos) => sum + pos.col, 0) / cells.length;
+        const distance = (pos: Position) => (pos.row - row) ** 2 + (pos.col - col) ** 2;
+        return cells.reduce((best, pos) => (distance(pos) < distance(best) ? pos : best));
+    }
+
+    private pollGamepad() {
+        for (const action of this.gamepad.poll(performance.now())) {
+            this.lastInputTime = performance.now();
+            this.handleNavAction(action);
         }
     }
 
@@ -693,6 +1189,20 @@ class AtomiconGame {
         }
     }
 
+    private cycleAnimationSpeed() {
+        const speeds = Object.keys(ANIMATION_SPEEDS) as AnimationSpeed[];
+        this.animationSpeed = speeds[(speeds.indexOf(this.animationSpeed) + 1) % speeds.length];
+        localStorage.setItem("atomicon_animation_speed", this.animationSpeed);
+        this.applyAnimationSpeed();
+    }
+
+    /** The setting scaled by whichever of replay or autoplay is driving the board */
+    private applyAnimationSpeed() {
+        const driver = this.playback ? this.playback.speed : this.autoplay ? this.autoplaySpeed : 1;
+        this.renderer.setAnimationSpeed(ANIMATION_SPEEDS[this.animationSpeed] * driver);
+        this.animationSpeedBtn.textContent = `ANIMATIONS: ${this.animationSpeed.toUpperCase()}`;
+    }
+
     private syncSoundButton() {
         const icons: Record<SoundMode, string> = {
             0: "\u{1F507}", // muted
@@ -707,68 +1217,241 @@ class AtomiconGame {
             3: "Sound: All",
         };
         this.soundToggleBtn.textContent = icons[this.soundMode];
-        this.soundToggleBtn.title = titles[this.soundMode];
+        this.soundToggleBtn.title = `${titles[this.soundMode]} (M)`;
         this.soundToggleBtn.classList.toggle("off", this.soundMode === 0);
     }
 
-    private getLeaderboard(): number[] {
-        const raw = localStorage.getItem(this.leaderboardKey);
-        if (!raw) return [];
-        try {
-            const parsed = JSON.parse(raw) as unknown;
-            if (!Array.isArray(parsed)) return [];
-            return parsed
-                .map((item) => Number(item))
-                .filter((v) => Number.isFinite(v) && v >= 0)
-                .sort((a, b) => b - a)
-                .slice(0, 5);
-        } catch {
-            return [];
+    /** Board the live game is submitted to */
+    private leaderboardBoard(): LeaderboardBoard {
+        // Hot-seat games are never submitted, so they fall through to the standard board
+        if (this.mode.type === "blitz" || this.mode.type === "moves") return this.mode.type;
+        return this.undoUsed ? "undo" : "standard";
+    }
+
+    private showLeaderboard(board?: LeaderboardBoard) {
+        if (!board) {
+            // Open on the board of the live game, or the one that received the last finished game
+            board = this.undoUsed && this.phase !== Phase.GAME_OVER ? "standard" : this.leaderboardBoard();
+        }
+        for (const tab of this.leaderboardPanel.querySelectorAll<HTMLButtonElement>("[data-board]")) {
+            tab.classList.toggle("active", tab.dataset.board === board);
         }
+
+        this.leaderboardVariantEl.textContent = this.engine.rules.name;
+        const entries = getLeaderboard(this.variantKey(this.leaderboardKeys[board]));
+        this.leaderboardRows.replaceChildren(
+            ...entries.map((entry, i) => this.createLeaderboardRow(entry, i + 1)),
+        );
+        this.leaderboardEmpty.style.display = entries.length === 0 ? "block" : "none";
+        this.leaderboardPanel.classList.add("visible");
     }
 
-    private storeLeaderboard(scores: number[]) {
-        localStorage.setItem(this.leaderboardKey, JSON.stringify(scores.slice(0, 5)));
+    private hideLeaderboard() {
+        this.leaderboardPanel.classList.remove("visible");
     }
 
-    private submitLeaderboard(score: number) {
-        const scores = this.getLeaderboard();
-        scores.push(score);
-        scores.sort((a, b) => b - a);
-        this.storeLeaderboard(scores.slice(0, 5));
+    private isPanelOpen(): boolean {
+        return document.querySelector(".panel.visible") !== null;
+    }
+
+    /** Mode tabs and variant picker shown before starting a new game */
+    private showNewGamePanel() {
+        const current = this.engine.rules.id;
+        const mode = this.arcadeMode;
+        const bestText = (rules: RuleSet) =>
+            mode === "versus" ? `${VERSUS_PLAYERS} players` : `Best ${this.bestFor(rules, mode)}`;
+        for (const tab of this.newGamePanel.querySelectorAll<HTMLButtonElement>("[data-mode]")) {
+            tab.classList.toggle("active", tab.dataset.mode === mode);
+        }
+        this.variantList.replaceChildren(
+            ...VARIANTS.map(({ rules, description }) => {
+                const button = document.createElement("button");
+                button.classList.toggle("active", rules.id === current);
+                const parts: [string, string][] = [
+                    ["variant-name", rules.name],
+                    ["variant-desc", description],
+                    ["variant-best", bestText(rules)],
+                ];
+                for (const [className, text] of parts) {
+                    const span = document.createElement("span");
+                    span.className = className;
+                    span.textContent = text;
+                    button.appendChild(span);
+                }
+                button.addEventListener("click", () => {
+                    this.hideNewGamePanel();
+                    this.newGame(randomSeed(), rules, mode);
+                });
+                return button;
+            }),
+        );
+        this.newGamePanel.classList.add("visible");
+    }
+
+    private hideNewGamePanel() {
+        this.newGamePanel.classList.remove("visible");
+    }
+
+    private selectArcadeMode(mode: ArcadeMode) {
+        this.arcadeMode = mode;
+        localStorage.setItem("atomicon_mode", mode);
+        this.showNewGamePanel();
+    }
+
+    /** Storage key scoped to a variant; Classic keeps the original unscoped keys */
+    private variantKey(base: string, rules: RuleSet = this.engine.rules): string {
+        return rules.id === CLASSIC.id ? base : `${base}_${rules.id}`;
+    }
+
+    private loadBest(rules: RuleSet): number {
+        return parseInt(localStorage.getItem(this.variantKey("atomicon_best", rules)) || "0", 10);
+    }
+
+    /** Endless best score; blitz and limited-moves games use the top of their leaderboard */
+    private bestFor(rules: RuleSet, mode: GameMode["type"]): number {
+        if (mode !== "blitz" && mode !== "moves") return this.loadBest(rules);
+        return getLeaderboard(this.variantKey(this.leaderboardKeys[mode], rules))[0]?.score ?? 0;
+    }
+
+    private createLeaderboardRow(entry: LeaderboardEntry, rank: number): HTMLTableRowElement {
+        const legacy = isLegacyEntry(entry);
+        const cells = [
+            String(rank),
+            String(entry.score),
+            legacy ? "—" : new Date(entry.date).toLocaleDateString(),
+            legacy ? "—" : String(entry.moves),
+            legacy ? "—" : String(entry.biggestClear),
+            legacy ? "—" : `x${entry.maxCombo}`,
+            legacy ? "—" : formatDuration(entry.durationMs),
+            legacy ? "—" : String(entry.hintsUsed),
+        ];
+        const row = document.createElement("tr");
+        row.classList.toggle("highlight", !legacy && entry.date === this.lastEntryDate);
+        for (const text of cells) {
+            const td = document.createElement("td");
+            td.textContent = text;
+            row.appendChild(td);
+        }
+        return row;
     }
 
     // ─── Game lifecycle ────────────────────────────────────────────────────
 
-    private newGame() {
-        this.grid = createEmptyGrid();
-        this.score = 0;
-        this.combo = 0;
-        this.moveCount = 0;
-        this.selected = null;
-        this.pendingRemove = null;
-        this.pendingLineScore = 0;
-        this.pendingLineCount = 0;
-        this.phase = Phase.SELECT;
-        this.overlay.classList.remove("visible");
-        this.renderer.setSelected(null);
+    private newGame(seed = randomSeed(), rules = this.engine.rules, mode = this.arcadeMode) {
+        localStorage.setItem("atomicon_variant", rules.id);
+        const players = mode === "versus" ? VERSUS_PLAYERS : 1;
+        // Undo is only offered in casual endless games
+        this.resetSession(new ReplayRecorder(seed, rules, players), mode === "endless" && !this.ranked, this.ranked);
+        this.clockMs = BLITZ_TIME_MS;
+        this.resetBoard(new GameEngine(seed, rules, undefined, players), { type: mode });
+        // An unsaved mode replaces the stored game too, so a reload or leaving a replay cannot bring it back
+        if (this.isSavedMode()) this.saveProgress();
+        else clearSavedGame();
+        this.setMessage(
+            mode === "blitz"
+                ? "Blitz — clears add time to the clock"
+                : mode === "moves"
+                  ? `Limited moves — best score in ${MOVE_BUDGET} moves`
+                  : mode === "versus"
+                    ? `Versus — ${playerName(0)} moves first`
+                    : "Select a cell to move",
+        );
+    }
 
-        this.nextColors = generateNextColors(PREVIEW_SIZE, this.moveCount);
-        spawnCells(this.grid, generateNextColors(6, this.moveCount));
+    /** Per-game bookkeeping shared by all modes */
+    private resetSession(recorder: ReplayRecorder, undoAllowed: boolean, ranked: boolean) {
+        this.stopReplay();
+        this.stopAutoplay();
+        this.abandonDaily();
+        this.recorder = recorder;
+        this.history.clear();
+        this.undoAllowed = undoAllowed;
+        this.rankedGame = ranked;
+        this.undoUsed = false;
+        this.hintsUsed = 0;
+        this.autoplayUsed = false;
+        this.playTimeMs = 0;
+    }
+
+    /** Restore the in-progress game from storage; returns false when there is none */
+    private resumeSavedGame(): boolean {
+        const saved = loadSavedGame();
+        if (!saved) return false;
+        this.stopReplay();
+        this.stopAutoplay();
+        const rules = getVariant(saved.state.variant) ?? CLASSIC;
+        this.recorder = new ReplayRecorder(saved.state.seed, rules);
+        this.recorder.restore(saved.replay.moves);
+        this.history.clear();
+        this.undoAllowed = saved.undoAllowed;
+        // Stored games are endless or daily, where undo is off exactly when the game is ranked
+        this.rankedGame = !saved.undoAllowed;
+        this.undoUsed = saved.undoUsed;
+        this.hintsUsed = saved.hintsUsed;
+        this.autoplayUsed = saved.autoplayUsed;
+        this.playTimeMs = saved.playTimeMs;
+        const engine = new GameEngine(saved.state.seed, rules);
+        engine.restore(saved.state);
+        this.resetBoard(engine, saved.daily ? { type: "daily", day: saved.daily } : ENDLESS);
+        this.setMessage("Game restored — select a cell to move");
+        return true;
+    }
 
+    /** Only endless and daily games survive a reload; levels, blitz and limited-moves games are short */
+    private isSavedMode(): boolean {
+        return this.mode.type === "endless" || this.mode.type === "daily";
+    }
+
+    /** Persist the live game; called whenever the board is settled in SELECT */
+    private saveProgress() {
+        if (this.playback || !this.isSavedMode()) return;
+        storeSavedGame({
+            state: this.engine.state,
+            replay: this.recorder.toReplay(this.engine.state.score),
+            undoAllowed: this.undoAllowed,
+            undoUsed: this.undoUsed,
+            playTimeMs: this.playTimeMs,
+            hintsUsed: this.hintsUsed,
+            autoplayUsed: this.autoplayUsed,
+            daily: this.mode.type === "daily" ? this.mode.day : null,
+        });
+    }
+
+    private resetBoard(engine: GameEngine, mode = ENDLESS) {
+        if (engine.rules !== this.engine.rules || this.nextDots.length === 0) {
+            this.renderer.setRules(engine.rules);
+            this.buildPreviewDots(engine.rules.maxSpawn);
+        }
+        this.engine = engine;
+        this.mode = mode;
+        this.levelOverlay.classList.remove("visible");
+        this.modeBar.classList.toggle("visible", mode.type !== "endless");
+        this.best = this.bestFor(engine.rules, mode.type);
+        this.turn = null;
+        this.targeting = null;
+        this.powerUse = null;
+        this.syncDisplayedState();
+        this.setSelection(null);
+        this.phase = Phase.SELECT;
+        this.overlay.classList.remove("visible");
         this.updateUI();
-        this.setMessage("Select a cell to move");
+        this.events.emit("gameStarted", { rules: engine.rules, mode: mode.type, replay: !!this.playback });
     }
 
     private updateUI() {
         this.scoreEl.textContent = String(this.score);
         this.bestEl.textContent = String(this.best);
+        this.syncPlayerStats();
+        this.syncPowerUps();
 
-        // Pass combo level to renderer for particle effects
-        this.renderer.setComboLevel(this.combo);
+        if (this.combo !== this.shownCombo) {
+            const previous = this.shownCombo;
+            this.shownCombo = this.combo;
+            this.events.emit("comboChanged", { combo: this.combo, previous });
+        }
 
-        const occupied = countOccupied(this.grid);
-        const spawnCount = getSpawnCount(this.moveCount, occupied / VALID_CELL_COUNT);
+        const spawnCount = this.engine.getSpawnCount();
+        const nextColors = this.engine.state.nextColors;
 
         // Next preview dots — hide dots beyond spawnCount entirely
         for (let i = 0; i < this.nextDots.length; i++) {
@@ -777,11 +1460,46 @@ class AtomiconGame {
                 continue;
             }
             this.nextDots[i].classList.remove("hidden");
-            const color = this.nextColors[i];
+            const color = nextColors[i];
             this.nextDots[i].style.background =
                 color !== undefined ? this.renderer.getThemeColor(color) : "transparent";
             this.nextDots[i].style.opacity = "1";
         }
+
+        this.syncHistoryButtons();
+        this.syncModeBar();
+    }
+
+    /** Take the board, scores and combo from the engine once nothing is left to animate */
+    private syncDisplayedState() {
+        const state = this.engine.state;
+        this.grid = cloneGrid(state.grid);
+        this.score = state.score;
+        this.combo = state.combo;
+        this.playerScores = state.players.map((player) => player.score);
+    }
+
+    /** Hot-seat header: each player's score and combo, with the player to move highlighted */
+    private syncPlayerStats() {
+        const players = this.engine.state.players;
+        this.headerEl.classList.toggle("versus", players.length > 0);
+        // The engine passes the turn as soon as a move resolves; keep the mover highlighted while it animates
+        const active = this.turn ? this.turn.player : this.engine.state.currentPlayer;
+        this.playerStats.forEach((stat, i) => {
+            const combo = i === active ? this.combo : (players[i]?.combo ?? 0);
+            stat.root.classList.toggle("active", i === active);
+            stat.score.textContent = String(this.playerScores[i] ?? 0);
+            stat.combo.textContent = combo > 1 ? `x${combo}` : "";
+        });
+    }
+
+    private buildPreviewDots(count: number) {
+        this.nextDots = Array.from({ length: count }, () => {
+            const dot = document.createElement("div");
+            dot.className = "next-dot";
+            return dot;
+        });
+        document.getElementById("next-preview")!.replaceChildren(...this.nextDots);
     }
 
     private setMessage(msg: string) {
@@ -791,208 +1509,1299 @@ class AtomiconGame {
     // ─── Click handling ────────────────────────────────────────────────────
 
     private handleClick(e: MouseEvent) {
-        if (this.phase !== Phase.SELECT) return;
-        void this.sfx.unlock().then(() => this.sfx.startMusic());
+        if (this.gestures.consumeClick()) return;
+        const pos = this.cellAtClient(e.clientX, e.clientY);
+        // Mouse input hides the keyboard cursor
+        this.cursor = null;
+        this.renderer.setCursor(null);
+        if (pos) this.handleCellClick(pos);
+    }
 
+    private cellAtClient(clientX: number, clientY: number): Position | null {
         const rect = this.renderer.getCanvas().getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
-        const pos = this.renderer.getCellFromPixel(x, y);
-        if (!pos) return;
+        return this.renderer.getCellFromPixel(clientX - rect.left, clientY - rect.top);
+    }
+
+    // ─── Drag and long-press ───────────────────────────────────────────────
+
+    private onDragStart(from: Position): boolean {
+        if (this.phase !== Phase.SELECT || this.playback || this.autoplay) return false;
+        if (this.grid[from.row][from.col].color < 0 || isFrozen(this.grid, from)) return false;
+        this.cursor = null;
+        this.renderer.setCursor(null);
+        this.setSelection(from);
+        this.events.emit("cellSelected", { pos: from, color: this.grid[from.row][from.col].color });
+        return true;
+    }
+
+    private onDragMove(from: Position, over: Position | null) {
+        const path = over && this.reach ? pathTo(this.reach, over) : null;
+        this.renderer.setPathPreview(path ? [from, ...path] : null, this.grid[from.row][from.col].color);
+    }
+
+    /** Snap the dragged cell to the cell under the pointer, as if it had been tapped */
+    private onDragEnd(from: Position, over: Position | null) {
+        this.renderer.setPathPreview(null);
+        if (!over || (over.row === from.row && over.col === from.col)) {
+            this.setMessage("Select destination");
+            return;
+        }
+        this.handleCellClick(over);
+    }
+
+    /** Long-press: show the cell's group, or what moving the selection there would clear */
+    private inspectCell(pos: Position) {
+        if (this.phase !== Phase.SELECT) return;
+        const color = this.grid[pos.row][pos.col].color;
+
+        if (color >= 0) {
+            const group = getGroupAt(this.grid, pos, this.engine.rules);
+            this.renderer.setInspect(new Set(group.map(posKey)));
+            this.setMessage(`Group of ${group.length} — ${this.engine.rules.minMatch} needed to clear`);
+            return;
+        }
+
+        if (!this.selected) {
+            this.setMessage("Empty cell");
+            return;
+        }
+        const preview = previewMove(this.grid, this.selected, pos, this.engine.rules);
+        if (!preview) {
+            this.setMessage("No path to this cell");
+        } else if (preview.toRemove.size > 0) {
+            this.renderer.setInspect(preview.toRemove);
+            this.setMessage(`Would clear ${preview.toRemove.size} cells (+${preview.score})`);
+        } else {
+            this.setMessage("Moving here clears nothing");
+        }
+    }
+
+    /** Change the selected cell and refresh reachability and move-outcome hints */
+    private setSelection(pos: Position | null) {
+        this.selected = pos;
+        this.renderer.setSelected(pos);
+        this.renderer.setPathPreview(null);
+        this.renderer.setHint(null);
+        this.reach = pos ? findReachable(this.grid, pos, this.engine.rules) : null;
+        if (!pos || !this.reach) {
+            this.renderer.setMoveHints(null);
+            return;
+        }
+
+        const nextCombo = this.engine.state.combo + 1;
+        const hints = new Map<string, number>();
+        for (const cell of this.reach.cells) {
+            const { score } = checkMoveOutcome(this.grid, pos, cell, this.engine.rules);
+            hints.set(posKey(cell), score > 0 ? score + getComboBonus(score, nextCombo) : 0);
+        }
+        this.renderer.setMoveHints(hints);
+    }
+
+    /** Mouse hover over a reachable cell previews the path to it */
+    private handleHover(e: PointerEvent) {
+        if (e.pointerType !== "mouse" || e.buttons !== 0) return;
+        this.previewPathTo(this.cellAtClient(e.clientX, e.clientY));
+    }
+
+    private previewPathTo(pos: Position | null) {
+        if (!this.selected || !this.reach) return;
+        const path = pos ? pathTo(this.reach, pos) : null;
+        this.renderer.setPathPreview(
+            path ? [this.selected, ...path] : null,
+            this.grid[this.selected.row][this.selected.col].color,
+        );
+    }
+
+    /** Select / move logic shared by all input methods */
+    private handleCellClick(pos: Position) {
+        if (this.isTargeting()) {
+            this.handleTargetClick(pos);
+            return;
+        }
+        if (this.phase !== Phase.SELECT || this.playback || this.autoplay) return;
+        void this.sfx.unlock().then(() => this.sfx.startMusic());
 
         const cellColor = this.grid[pos.row][pos.col].color;
+        if (cellColor >= 0 && isFrozen(this.grid, pos)) {
+            this.events.emit("moveRejected", { pos, reason: "frozen" });
+            this.setMessage("Frozen — clear a group next to it to thaw it");
+            return;
+        }
 
         if (this.selected === null) {
             // Select a cell with a micro
             if (cellColor >= 0) {
-                this.selected = pos;
-                this.renderer.setSelected(pos);
-                this.sfx.pop();
+                this.setSelection(pos);
+                this.events.emit("cellSelected", { pos, color: cellColor });
                 this.setMessage("Select destination");
             }
         } else {
             // Second click
             if (cellColor >= 0) {
                 // Re-select a different micro
-                this.selected = pos;
-                this.renderer.setSelected(pos);
-                this.sfx.pop();
+                this.setSelection(pos);
+                this.events.emit("cellSelected", { pos, color: cellColor });
                 this.setMessage("Select destination");
                 return;
             }
 
             // Try to move
-            const path = findPath(this.grid, this.selected, pos);
-            if (!path || path.length === 0) {
-                this.sfx.error();
+            if (!this.playMove(this.selected, pos)) {
+                this.events.emit("moveRejected", { pos, reason: "no-path" });
                 this.setMessage("No path! Try another cell");
-                return;
             }
+        }
+    }
 
-            // Execute move
-            this.phase = Phase.MOVE_ANIM;
-            const movingColor = this.grid[this.selected.row][this.selected.col].color;
-
-            // Clear source
-            this.grid[this.selected.row][this.selected.col].color = -1;
-            // Set destination (so line check after anim works)
-            this.grid[pos.row][pos.col].color = movingColor;
+    /** Apply a move through the engine and start animating it; false when the move is not legal */
+    private playMove(from: Position, to: Position): boolean {
+        const before = this.captureHistory();
+        const turn = this.engine.applyMove(from, to);
+        if (!turn) return false;
 
-            // Build full path including source
-            const fullPath = [this.selected, ...path];
+        if (this.undoAllowed) this.history.push(before);
+        this.recorder.record(turn);
+        this.playTurn(turn);
+        return true;
+    }
 
-            this.renderer.setSelected(null);
-            this.renderer.startPathAnimation(fullPath, movingColor);
-            this.sfx.move();
-            this.selected = null;
-            this.setMessage("");
-        }
+    /** Start animating a turn the engine has already resolved */
+    private playTurn(turn: TurnResult) {
+        const from = turn.path[0];
+        const to = turn.path[turn.path.length - 1];
+        this.turn = turn;
+        this.phase = Phase.MOVE_ANIM;
+        // Set destination (so the moved cell is drawn once the path animation ends)
+        moveCell(this.grid, from, to);
+
+        this.setSelection(null);
+        this.events.emit("moveStarted", {
+            path: turn.path,
+            color: turn.color,
+            special: this.grid[to.row][to.col].special,
+            moves: this.engine.state.moveCount,
+        });
+        this.setMessage("");
     }
 
     // ─── Animation complete callback ────────────────────────────────────
 
     private onAnimComplete() {
+        if (this.powerUse) {
+            this.onPowerUpAnimComplete(this.powerUse);
+            return;
+        }
+        const turn = this.turn;
+        if (!turn) return;
+
         if (this.phase === Phase.MOVE_ANIM) {
-            this.moveCount++;
-            // Check for lines
-            const { toRemove, score, lineCount } = checkLines(this.grid);
-            if (toRemove.size > 0) {
-                this.combo++;
-                const comboBonus = this.combo > 1 ? Math.floor(score * 0.2 * (this.combo - 1)) : 0;
-                const turnScore = score + comboBonus;
-                this.score += turnScore;
-                if (this.score > this.best) {
-                    this.best = this.score;
-                    localStorage.setItem("atomicon_best", String(this.best));
-                }
-                this.pendingRemove = toRemove;
-                this.pendingLineScore = turnScore;
-                this.pendingLineCount = lineCount;
-                this.phase = Phase.REMOVE_ANIM;
-                this.renderer.startRemoveAnimation(toRemove);
-                this.triggerCelebration(toRemove);
-                if (this.combo > 1) {
-                    this.sfx.combo();
-                    this.setMessage(`Combo x${this.combo}! +${turnScore}`);
-                } else {
-                    this.sfx.score();
-                    this.setMessage(`+${turnScore} points`);
-                }
-                this.updateUI();
+            if (turn.clear && !turn.clear.chain) {
+                this.showClear(turn.clear);
                 return;
             }
 
             this.combo = 0;
             // No score — spawn new cells
-            this.spawnPhase();
+            this.spawnPhase(turn);
             return;
         }
 
         if (this.phase === Phase.REMOVE_ANIM) {
-            if (this.pendingRemove) {
-                removeMatches(this.grid, this.pendingRemove);
+            if (turn.clear) {
+                removeMatches(this.grid, turn.clear.removed, this.engine.rules);
             }
-            this.pendingRemove = null;
-            this.pendingLineScore = 0;
-            this.pendingLineCount = 0;
+            this.finishTurn(turn);
+            return;
+        }
 
-            if (!hasAnyMove(this.grid) || isBoardFull(this.grid)) {
-                this.gameOver();
+        if (this.phase === Phase.SPAWN_ANIM) {
+            // Spawned cells may have created lines
+            if (turn.clear) {
+                this.showClear(turn.clear);
                 return;
             }
+            this.finishTurn(turn);
+            return;
+        }
+    }
+
+    private showClear(clear: ClearResult) {
+        this.combo = clear.combo;
+        this.score += clear.total;
+        if (this.playerScores.length > 0) {
+            // Power-ups do not pass the turn, so their clears go to the player to move
+            this.playerScores[this.turn?.player ?? this.engine.state.currentPlayer] += clear.total;
+        }
+        const ranked = !this.playback && !this.undoUsed && !this.autoplayUsed;
+        if (ranked && this.mode.type === "endless" && this.score > this.best) {
+            this.best = this.score;
+            localStorage.setItem(this.variantKey("atomicon_best"), String(this.best));
+        }
+        this.phase = Phase.REMOVE_ANIM;
+        this.events.emit("cleared", { clear, grid: this.grid, score: this.score });
+        let bonus = "";
+        if (clear.blasted > 0) bonus += ` · Boom! ${clear.blasted} blasted`;
+        if (clear.multipliers > 0) bonus += ` · x${2 ** clear.multipliers} multiplier`;
+        if (this.mode.type === "blitz") {
+            const bonusMs = clear.lineCount * BLITZ_BONUS_PER_LINE_MS;
+            this.clockMs += bonusMs;
+            bonus += ` · +${bonusMs / 1000}s`;
+        }
+        if (this.combo > 1) {
+            const label = clear.chain ? "Chain combo" : "Combo";
+            this.setMessage(`${label} x${this.combo}! +${clear.total}${bonus}`);
+        } else {
+            this.setMessage(`+${clear.total} points${bonus}`);
+        }
+        this.updateUI();
+    }
+
+    private spawnPhase(turn: TurnResult) {
+        for (const { pos, color, special } of turn.spawned) {
+            this.grid[pos.row][pos.col] = { ...this.grid[pos.row][pos.col], color, special };
+        }
+        this.updateUI();
 
+        if (turn.spawned.length > 0) {
+            this.phase = Phase.SPAWN_ANIM;
+            this.events.emit("spawned", { cells: turn.spawned });
+            this.setMessage(`Spawned ${turn.spawned.length} cells`);
+        } else {
+            // Board is full
+            this.finishTurn(turn);
+        }
+    }
+
+    /** Sync the displayed state with the engine once a turn has been fully animated */
+    private finishTurn(turn: TurnResult) {
+        this.turn = null;
+        this.syncDisplayedState();
+
+        if (this.playback) {
             this.phase = Phase.SELECT;
-            this.setMessage("Select a cell to move");
             this.updateUI();
+            this.syncReplayBar();
+            if (turn.gameOver || this.playback.player.isFinished()) {
+                this.endReplay();
+            } else {
+                this.scheduleReplayStep();
+            }
             return;
         }
 
-        if (this.phase === Phase.SPAWN_ANIM) {
-            // Check if spawned cells create lines
-            const { toRemove, score } = checkLines(this.grid);
-            if (toRemove.size > 0) {
-                this.combo++;
-                const comboBonus = this.combo > 1 ? Math.floor(score * 0.2 * (this.combo - 1)) : 0;
-                const turnScore = score + comboBonus;
-                this.score += turnScore;
-                if (this.score > this.best) {
-                    this.best = this.score;
-                    localStorage.setItem("atomicon_best", String(this.best));
-                }
-                this.pendingRemove = toRemove;
-                this.phase = Phase.REMOVE_ANIM;
-                this.renderer.startRemoveAnimation(toRemove);
-                this.triggerCelebration(toRemove);
-                if (this.combo > 1) {
-                    this.sfx.combo();
-                    this.setMessage(`Chain combo x${this.combo}! +${turnScore}`);
-                } else {
-                    this.sfx.score();
-                    this.setMessage(`+${turnScore} points`);
+        const mode = this.mode;
+        if (mode.type === "level") {
+            const status = getLevelStatus(mode.level, this.engine.state);
+            if (status !== "playing") {
+                this.finishLevel(mode.level, status === "won");
+                return;
+            }
+        } else if (turn.gameOver || (mode.type === "moves" && this.engine.state.moveCount >= MOVE_BUDGET)) {
+            this.gameOver();
+            return;
+        }
+
+        this.phase = Phase.SELECT;
+        this.saveProgress();
+        const prompt =
+            mode.type === "versus"
+                ? `${playerName(this.engine.state.currentPlayer)} — select a cell to move`
+                : "Select a cell to move";
+        this.setMessage(turn.powerUp ? `${POWER_UP_LABELS[turn.powerUp]} power-up earned! ${prompt}` : prompt);
+        this.updateUI();
+        this.scheduleAutoplayStep();
+    }
+
+    private gameOver() {
+        this.phase = Phase.GAME_OVER;
+        this.targeting = null;
+        this.stopAutoplay();
+        if (this.isSavedMode()) clearSavedGame();
+        const state = this.engine.state;
+        const entry: LeaderboardEntry = {
+            score: this.score,
+            date: Date.now(),
+            moves: state.moveCount,
+            biggestClear: state.biggestClear,
+            maxCombo: state.maxCombo,
+            durationMs: this.playTimeMs,
+            hintsUsed: this.hintsUsed,
+        };
+        if (this.mode.type === "daily") {
+            // Daily games have their own history instead of the leaderboard
+            this.storeDailyAttempt(this.mode.day);
+            this.syncStreak();
+        } else if (this.mode.type !== "versus" && !this.autoplayUsed) {
+            submitLeaderboard(this.variantKey(this.leaderboardKeys[this.leaderboardBoard()]), entry);
+            this.lastEntryDate = entry.date;
+        }
+        this.emitGameOver("finished");
+        this.lastReplay = this.recorder.toReplay(this.score);
+        localStorage.setItem(this.lastReplayKey, encodeReplay(this.lastReplay));
+        this.overlayTitleEl.textContent = this.mode.type === "versus" ? this.versusResult() : "GAME OVER";
+        this.finalScoreEl.textContent =
+            this.mode.type === "versus" ? this.playerScores.join(" – ") : String(this.score);
+        this.undoNoteEl.textContent =
+            this.mode.type === "daily"
+                ? "Daily challenge finished — a new board arrives tomorrow"
+                : this.autoplayUsed
+                  ? "Autoplay was used — score not recorded"
+                  : this.undoUsed
+                    ? "Undo was used — score kept on the casual leaderboard"
+                    : "";
+        this.overlay.classList.add("visible");
+        this.setMessage("Game Over");
+    }
+
+    private emitGameOver(result: GameEvents["gameOver"]["result"]) {
+        const state = this.engine.state;
+        this.events.emit("gameOver", {
+            rules: this.engine.rules,
+            grid: state.grid,
+            score: this.score,
+            moves: state.moveCount,
+            biggestClear: state.biggestClear,
+            maxCombo: state.maxCombo,
+            result,
+        });
+    }
+
+    /** Winner announcement; equal top scores are a draw */
+    private versusResult(): string {
+        const top = Math.max(...this.playerScores);
+        const leaders = this.playerScores.flatMap((score, i) => (score === top ? [i] : []));
+        return leaders.length === 1 ? `${playerName(leaders[0]).toUpperCase()} WINS` : "DRAW";
+    }
+
+    // ─── Levels ────────────────────────────────────────────────────────────
+
+    private showLevelsPanel() {
+        const progress = getLevelProgress();
+        this.levelList.replaceChildren(
+            ...LEVELS.map((level, index) => {
+                const button = document.createElement("button");
+                const unlocked = isLevelUnlocked(index, progress);
+                const stars = progress[level.id] ?? 0;
+                button.disabled = !unlocked;
+                button.classList.toggle("active", level === this.currentLevel());
+                const parts: [string, string][] = [
+                    ["variant-name", `${index + 1}. ${level.name}`],
+                    ["variant-desc", unlocked ? this.describeGoal(level) : "Complete the previous level to unlock"],
+                    ["variant-best", unlocked ? formatStars(stars) : "🔒"],
+                ];
+                for (const [className, text] of parts) {
+                    const span = document.createElement("span");
+                    span.className = className;
+                    span.textContent = text;
+                    button.appendChild(span);
                 }
-                this.updateUI();
+                button.addEventListener("click", () => {
+                    this.hideLevelsPanel();
+                    this.startLevel(level);
+                });
+                return button;
+            }),
+        );
+        this.levelsPanel.classList.add("visible");
+    }
+
+    private hideLevelsPanel() {
+        this.levelsPanel.classList.remove("visible");
+    }
+
+    private startLevel(level: Level) {
+        const engine = createLevelEngine(level);
+        // Levels are puzzles: undo and hints are always available
+        this.resetSession(new ReplayRecorder(level.seed, engine.rules), true, false);
+        this.resetBoard(engine, { type: "level", level });
+        this.setMessage(`${this.describeGoal(level)} in ${level.moves} moves`);
+    }
+
+    private currentLevel(): Level | null {
+        return this.mode.type === "level" ? this.mode.level : null;
+    }
+
+    private retryLevel() {
+        const level = this.currentLevel();
+        if (level) this.startLevel(level);
+    }
+
+    /** Overlay's main button: the next level after a win, otherwise another attempt */
+    private continueLevels() {
+        const next = this.nextLevel();
+        if (next) this.startLevel(next);
+        else this.retryLevel();
+    }
+
+    /** The level after the current one, once it is unlocked */
+    private nextLevel(): Level | null {
+        const level = this.currentLevel();
+        if (!level) return null;
+        const index = LEVELS.indexOf(level) + 1;
+        return index < LEVELS.length && isLevelUnlocked(index, getLevelProgress()) ? LEVELS[index] : null;
+    }
+
+    /** Back to endless play: the interrupted game if there is one */
+    private exitLevel() {
+        this.levelOverlay.classList.remove("visible");
+        if (this.resumeSavedGame()) return;
+        this.newGame(randomSeed(), getVariant(localStorage.getItem("atomicon_variant") ?? "") ?? CLASSIC, "endless");
+    }
+
+    private finishLevel(level: Level, won: boolean) {
+        this.phase = Phase.GAME_OVER;
+        this.stopAutoplay();
+        const state = this.engine.state;
+        const stars = won ? getLevelStars(level, state.moveCount) : 0;
+        if (won && !this.autoplayUsed) recordLevelResult(level.id, stars);
+        this.emitGameOver(won ? "won" : "lost");
+
+        this.levelResultEl.textContent = won ? "LEVEL COMPLETE" : "LEVEL FAILED";
+        this.levelStarsEl.textContent = formatStars(stars);
+        this.levelDetailEl.textContent = won
+            ? `Solved in ${state.moveCount} ${state.moveCount === 1 ? "move" : "moves"}`
+            : state.gameOver
+              ? "No moves left on the board"
+              : "Out of moves";
+        this.levelNoteEl.textContent = won && this.autoplayUsed ? "Autoplay was used — progress not recorded" : "";
+        const next = won ? this.nextLevel() : null;
+        this.levelPrimaryBtn.textContent = next ? "NEXT LEVEL" : "TRY AGAIN";
+        this.levelRetryBtn.hidden = !next;
+        this.levelOverlay.classList.add("visible");
+        this.setMessage(won ? "Level complete" : "Level failed");
+    }
+
+    private describeGoal(level: Level): string {
+        const goal = level.goal;
+        switch (goal.type) {
+            case "clear-color":
+                return `Clear every ${this.renderer.getCharacterName(goal.color)}`;
+            case "score":
+                return `Score ${goal.points} points`;
+            case "clear-targets":
+                return `Clear the ${goal.targets.length} marked cells`;
+        }
+    }
+
+    /** Name, goal and counter of the current mode; endless games hide the bar */
+    private syncModeBar() {
+        const mode = this.mode;
+        const movesLeft = (limit: number) => {
+            const left = Math.max(0, limit - this.engine.state.moveCount);
+            return `${left} ${left === 1 ? "move" : "moves"} left`;
+        };
+        let parts: [name: string, goal: string, counter: string];
+        switch (mode.type) {
+            case "endless":
                 return;
+            case "level":
+                parts = [
+                    `${LEVELS.indexOf(mode.level) + 1}. ${mode.level.name}`,
+                    this.describeGoal(mode.level),
+                    movesLeft(mode.level.moves),
+                ];
+                break;
+            case "daily":
+                parts = ["Daily challenge", mode.day, "One attempt"];
+                break;
+            case "blitz":
+                parts = ["Blitz", "Clears add time", formatDuration(Math.ceil(this.clockMs / 1000) * 1000)];
+                break;
+            case "moves":
+                parts = ["Limited moves", "Best score wins", movesLeft(MOVE_BUDGET)];
+                break;
+            case "versus":
+                parts = ["Versus", "Highest score wins", `${this.engine.state.moveCount} moves played`];
+                break;
+        }
+        [this.modeNameEl.textContent, this.modeGoalEl.textContent, this.modeCounterEl.textContent] = parts;
+    }
+
+    // ─── Daily challenge ───────────────────────────────────────────────────
+
+    private showDailyPanel() {
+        const today = getDayKey();
+        const result = getDailyResult(today);
+        const streak = getDailyStreak(today);
+        const streakText = streak > 0 ? ` · Streak: ${streak} ${streak === 1 ? "day" : "days"}` : "";
+        this.dailyStatusEl.textContent = result
+            ? `${today}: ${result.finished ? `played — ${result.score} points` : "in progress"}${streakText}`
+            : `${today}: not played yet${streakText}`;
+        this.dailyPlayBtn.disabled = result !== null;
+        this.dailyPlayBtn.textContent = result ? "COME BACK TOMORROW" : "PLAY TODAY'S CHALLENGE";
+
+        const history = getDailyHistory();
+        this.dailyRows.replaceChildren(...history.map((entry) => this.createDailyRow(entry)));
+        this.dailyEmpty.style.display = history.length === 0 ? "block" : "none";
+        this.dailyPanel.classList.add("visible");
+    }
+
+    private hideDailyPanel() {
+        this.dailyPanel.classList.remove("visible");
+    }
+
+    private createDailyRow(entry: DailyResult): HTMLTableRowElement {
+        const row = document.createElement("tr");
+        row.classList.toggle("highlight", entry.day === getDayKey());
+        for (const text of [entry.day, entry.finished ? String(entry.score) : "…", String(entry.moves)]) {
+            const td = document.createElement("td");
+            td.textContent = text;
+            row.appendChild(td);
+        }
+        return row;
+    }
+
+    /** Today's board: the same seed for everyone, ranked rules and a single attempt */
+    private startDaily() {
+        const day = getDayKey();
+        if (getDailyResult(day)) return;
+        this.hideDailyPanel();
+        const seed = getDailySeed(day);
+        this.resetSession(new ReplayRecorder(seed, CLASSIC), false, true);
+        this.resetBoard(new GameEngine(seed, CLASSIC), { type: "daily", day });
+        // The attempt counts from the first board shown, so restarting cannot reroll it
+        storeDailyResult({ day, score: 0, moves: 0, date: Date.now(), finished: false });
+        this.saveProgress();
+        this.syncStreak();
+        this.setMessage("Daily challenge — one attempt, no undo");
+    }
+
+    /** Leaving an unfinished daily game ends its attempt with the score reached so far */
+    private abandonDaily() {
+        if (this.mode.type === "daily" && this.phase !== Phase.GAME_OVER) this.storeDailyAttempt(this.mode.day);
+    }
+
+    private storeDailyAttempt(day: string) {
+        const state = this.engine.state;
+        storeDailyResult({ day, score: state.score, moves: state.moveCount, date: Date.now(), finished: true });
+    }
+
+    private syncStreak() {
+        const streak = getDailyStreak();
+        this.streakEl.textContent = String(streak);
+        this.streakEl.title = `${streak} ${streak === 1 ? "day" : "days"} in a row with the daily challenge played`;
+    }
+
+    // ─── Event subscribers ─────────────────────────────────────────────────
+
+    private subscribeSound() {
+        const events = this.events;
+        events.on("cellSelected", () => this.sfx.pop());
+        events.on("moveStarted", () => this.sfx.move());
+        events.on("moveRejected", () => this.sfx.error());
+        events.on("cleared", ({ clear }) => {
+            const tier = celebrationTier(clear.removed.size);
+            if (tier > 0) this.sfx.celebration(tier);
+            if (clear.combo > 1) this.sfx.combo();
+            else this.sfx.score();
+        });
+        events.on("gameOver", ({ result }) => (result === "lost" ? this.sfx.error() : this.sfx.gameOver()));
+    }
+
+    private subscribeRenderer() {
+        const events = this.events;
+        events.on("moveStarted", ({ path, color, special }) => this.renderer.startPathAnimation(path, color, special));
+        events.on("cleared", ({ clear }) => {
+            this.renderer.startRemoveAnimation(clear.removed);
+            const tier = celebrationTier(clear.removed.size);
+            if (tier > 0) this.renderer.startCelebration(clear.removed, tier);
+            this.renderer.startScorePopup(clear.removed, clear.total, scoreParts(clear));
+        });
+        events.on("spawned", ({ cells }) => this.renderer.startSpawnAnimation(cells.map((cell) => cell.pos)));
+        // The combo level drives the ambient particle effects
+        events.on("comboChanged", ({ combo }) => this.renderer.setComboLevel(combo));
+    }
+
+    private subscribeScoreLog() {
+        this.events.on("gameStarted", () => (this.scoreLog = []));
+        this.events.on("cleared", ({ clear }) => this.scoreLog.push({ move: this.engine.state.moveCount, clear }));
+    }
+
+    // ─── Score summary ─────────────────────────────────────────────────────
+
+    private showSummaryPanel() {
+        let logged = 0;
+        const rows = this.scoreLog.map(({ move, clear }, i) => {
+            const { base, length, multiLine, joker, multiplier } = clear.breakdown;
+            const tags = [clear.chain ? "chain" : "", clear.blasted > 0 ? "boom" : ""].filter(Boolean);
+            logged += clear.total;
+            return this.createSummaryRow([
+                String(i + 1),
+                String(move),
+                [`${clear.removed.size} cells`, ...tags].join(" · "),
+                `+${base}`,
+                length > 0 ? `+${length}` : "—",
+                multiLine > 0 ? `+${multiLine}` : "—",
+                joker > 0 ? `+${joker}` : "—",
+                multiplier > 1 ? `×${multiplier}` : "—",
+                clear.comboBonus > 0 ? `+${clear.comboBonus}` : "—",
+                String(clear.total),
+            ]);
+        });
+        if (rows.length > 0) {
+            const total = this.createSummaryRow(["", "", "Total", "", "", "", "", "", "", String(logged)]);
+            total.classList.add("highlight");
+            rows.push(total);
+        }
+        this.summaryRows.replaceChildren(...rows);
+        // Restored games only know the clears made since the page loaded
+        this.summaryNoteEl.textContent =
+            rows.length === 0
+                ? "No clears this game"
+                : logged < this.score
+                  ? `${this.score - logged} points came from clears before the game was restored`
+                  : "";
+        this.summaryNoteEl.style.display = this.summaryNoteEl.textContent ? "block" : "none";
+        this.summaryPanel.classList.add("visible");
+    }
+
+    private hideSummaryPanel() {
+        this.summaryPanel.classList.remove("visible");
+    }
+
+    private createSummaryRow(cells: string[]): HTMLTableRowElement {
+        const row = document.createElement("tr");
+        for (const text of cells) {
+            const td = document.createElement("td");
+            td.textContent = text;
+            row.appendChild(td);
+        }
+        return row;
+    }
+
+    // ─── Statistics ────────────────────────────────────────────────────────
+
+    /**
+     * Solo games the player finishes themselves; levels, hot-seat games, replays and bot games are left out.
+     * Like the leaderboard, a game stops counting at the first undo; its clears are only stored once it ends.
+     */
+    private tracksStats(): boolean {
+        const type = this.mode.type;
+        if (type === "level" || type === "versus") return false;
+        return !this.playback && !this.autoplay && !this.autoplayUsed && !this.undoUsed;
+    }
+
+    private showStatsPanel() {
+        const stats = getLifetimeStats();
+        const items: [string, string][] = [
+            ["Games played", String(stats.gamesPlayed)],
+            ["Average score", String(Math.round(averageScore(stats)))],
+            ["Median score", String(Math.round(medianScore(stats)))],
+            ["Longest game", `${stats.longestGame} moves`],
+            ["Largest clear", `${stats.largestClear} cells`],
+            ["Highest combo", `x${stats.highestCombo}`],
+            ["Clears", String(stats.clears)],
+            ["Jokers used", String(stats.jokersUsed)],
+        ];
+        this.statsSummaryEl.replaceChildren(
+            ...items.map(([label, value]) => {
+                const item = document.createElement("div");
+                const labelEl = document.createElement("span");
+                const valueEl = document.createElement("strong");
+                labelEl.textContent = label;
+                valueEl.textContent = value;
+                item.append(labelEl, valueEl);
+                return item;
+            }),
+        );
+        // Charts size themselves from the laid-out canvas, so the panel has to be visible first
+        this.statsPanel.classList.add("visible");
+
+        drawLineChart(this.statsScoreChart, stats.history.map((record) => record.score));
+        const sizes = Object.keys(stats.clearSizes).map(Number).sort((a, b) => a - b);
+        const sizeBars = sizes.map((size) => ({ label: String(size), value: stats.clearSizes[size] }));
+        drawBarChart(this.statsSizeChart, sizeBars);
+        const colors = Object.keys(stats.colorClears).map(Number).sort((a, b) => a - b);
+        drawBarChart(
+            this.statsColorChart,
+            colors.map((color) => ({
+                label: this.renderer.getCharacterName(color),
+                value: stats.colorClears[color],
+                color: this.renderer.getThemeColor(color),
+            })),
+        );
+    }
+
+    private hideStatsPanel() {
+        this.statsPanel.classList.remove("visible");
+    }
+
+    // ─── Achievements ──────────────────────────────────────────────────────
+
+    private announceAchievement(achievement: Achievement) {
+        this.renderer.startAchievementEffect(achievement.name);
+        this.sfx.celebration(1);
+        const toast = document.createElement("div");
+        toast.className = "toast";
+        const title = document.createElement("strong");
+        title.textContent = `🏅 ${achievement.name}`;
+        toast.append(title, achievement.description);
+        this.toastStack.appendChild(toast);
+        setTimeout(() => {
+            toast.classList.add("leaving");
+            toast.addEventListener("transitionend", () => toast.remove(), { once: true });
+        }, TOAST_MS);
+    }
+
+    private showAchievementsPanel() {
+        const states = getAchievementStates();
+        const unlocked = ACHIEVEMENTS.filter((achievement) => states[achievement.id].unlocked !== null).length;
+        this.achievementsCountEl.textContent = `${unlocked} / ${ACHIEVEMENTS.length}`;
+        this.achievementList.replaceChildren(
+            ...ACHIEVEMENTS.map((achievement) => {
+                const state = states[achievement.id];
+                const item = document.createElement("div");
+                item.className = "achievement";
+                item.classList.toggle("unlocked", state.unlocked !== null);
+
+                const icon = document.createElement("span");
+                icon.className = "achievement-icon";
+                icon.textContent = "🏅";
+                const name = document.createElement("span");
+                name.className = "achievement-name";
+                name.textContent = achievement.name;
+                const description = document.createElement("span");
+                description.textContent = achievement.description;
+
+                const progress = document.createElement("div");
+                progress.className = "achievement-progress";
+                const bar = document.createElement("div");
+                bar.className = "achievement-bar";
+                const fill = document.createElement("div");
+                fill.style.width = `${(state.progress / achievement.target) * 100}%`;
+                bar.appendChild(fill);
+                const label = document.createElement("span");
+                label.textContent =
+                    state.unlocked !== null
+                        ? new Date(state.unlocked).toLocaleDateString()
+                        : `${state.progress} / ${achievement.target}`;
+                progress.append(label, bar);
+
+                item.append(icon, name, progress, description);
+                return item;
+            }),
+        );
+        this.achievementsPanel.classList.add("visible");
+    }
+
+    private hideAchievementsPanel() {
+        this.achievementsPanel.classList.remove("visible");
+    }
+
+    // ─── Undo / redo ───────────────────────────────────────────────────────
+
+    private captureHistory(): HistoryEntry {
+        return { state: this.engine.snapshot(), moves: this.recorder.snapshot(), scoreLog: [...this.scoreLog] };
+    }
+
+    private canUseHistory(): boolean {
+        return this.undoAllowed && !this.playback && !this.autoplay && this.phase === Phase.SELECT;
+    }
+
+    private undo() {
+        if (!this.canUseHistory()) return;
+        const entry = this.history.undo(this.captureHistory());
+        if (!entry) return;
+        this.undoUsed = true;
+        this.applyHistory(entry);
+        this.setMessage("Move undone");
+    }
+
+    private redo() {
+        if (!this.canUseHistory()) return;
+        const entry = this.history.redo(this.captureHistory());
+        if (!entry) return;
+        this.applyHistory(entry);
+        this.setMessage("Move redone");
+    }
+
+    private applyHistory(entry: HistoryEntry) {
+        this.engine.restore(entry.state);
+        this.recorder.restore(entry.moves);
+        this.scoreLog = [...entry.scoreLog];
+        this.grid = cloneGrid(this.engine.state.grid);
+        this.score = this.engine.state.score;
+        this.combo = this.engine.state.combo;
+        this.setSelection(null);
+        this.sfx.pop();
+        this.saveProgress();
+        this.updateUI();
+    }
+
+    private toggleRanked() {
+        this.ranked = !this.ranked;
+        localStorage.setItem("atomicon_ranked", this.ranked ? "1" : "0");
+        this.setMessage(
+            this.ranked ? "Ranked play (no undo, limited hints) starts next game" : "Undo available from next game",
+        );
+        this.syncHistoryButtons();
+    }
+
+    private syncHistoryButtons() {
+        const enabled = this.undoAllowed && !this.playback && !this.autoplay;
+        this.undoBtn.disabled = !enabled || !this.history.canUndo();
+        this.redoBtn.disabled = !enabled || !this.history.canRedo();
+        this.rankedBtn.textContent = `RANKED: ${this.ranked ? "ON" : "OFF"}`;
+        this.rankedBtn.classList.toggle("active", this.ranked);
+        this.syncHintButton();
+    }
+
+    // ─── Power-ups ─────────────────────────────────────────────────────────
+
+    /** Levels have fixed solutions and replays only watch, so power-ups are off there */
+    private canUsePowerUps(): boolean {
+        return !this.playback && !this.autoplay && this.mode.type !== "level";
+    }
+
+    private isTargeting(): boolean {
+        return this.phase === Phase.POWER_SOURCE || this.phase === Phase.POWER_TARGET;
+    }
+
+    /** Shuffle reorders the preview at once; the others wait for cells. Pressing the active one again cancels it */
+    private startPowerUp(powerUp: PowerUp) {
+        if (this.targeting?.powerUp === powerUp) {
+            this.cancelPowerUp();
+            this.setMessage("Select a cell to move");
+            return;
+        }
+        if (!this.canUsePowerUps() || (this.phase !== Phase.SELECT && !this.isTargeting())) return;
+        if (this.engine.powerUps()[powerUp] <= 0) {
+            this.sfx.error();
+            const earn = `reach combo x${POWER_UP_COMBO} or clear ${POWER_UP_CLEAR_SIZE}+ cells`;
+            this.setMessage(`No ${POWER_UP_LABELS[powerUp]} left — ${earn}`);
+            return;
+        }
+
+        this.cancelPowerUp();
+        this.setSelection(null);
+        if (powerUp === "shuffle") {
+            if (!this.applyPowerUp({ type: "shuffle" })) {
+                this.sfx.error();
+                this.setMessage("The upcoming colors cannot be shuffled here");
             }
+            return;
+        }
+        this.targeting = { powerUp, first: null };
+        this.phase = Phase.POWER_SOURCE;
+        this.sfx.pop();
+        this.setMessage(this.targetPrompt());
+        this.syncPowerUps();
+    }
 
-            this.combo = 0;
-            // Check game over
-            if (isBoardFull(this.grid) || !hasAnyMove(this.grid)) {
-                this.gameOver();
+    private cancelPowerUp() {
+        if (!this.targeting) return;
+        this.targeting = null;
+        this.renderer.setSelected(null);
+        if (this.isTargeting()) this.phase = Phase.SELECT;
+        this.syncPowerUps();
+    }
+
+    private targetPrompt(): string {
+        switch (this.targeting?.powerUp) {
+            case "teleport":
+                return this.targeting.first ? "Teleport: select an empty cell" : "Teleport: select a cell to move";
+            case "swap":
+                return this.targeting.first ? "Swap: select the second cell" : "Swap: select the first cell";
+            case "delete":
+                return "Delete: select a cell to remove";
+            default:
+                return "Select a cell to move";
+        }
+    }
+
+    private handleTargetClick(pos: Position) {
+        const targeting = this.targeting;
+        if (!targeting) return;
+        const cell = this.grid[pos.row][pos.col];
+
+        let action: PowerUpAction | null = null;
+        if (targeting.powerUp === "delete") {
+            if (cell.color >= 0) action = { type: "delete", at: pos };
+        } else if (!targeting.first) {
+            if (cell.color >= 0 && !isFrozen(this.grid, pos)) {
+                targeting.first = pos;
+                this.phase = Phase.POWER_TARGET;
+                this.renderer.setSelected(pos);
+                this.sfx.pop();
+                this.setMessage(this.targetPrompt());
                 return;
             }
+        } else if (targeting.powerUp === "teleport") {
+            action = { type: "teleport", from: targeting.first, to: pos };
+        } else if (posKey(targeting.first) !== posKey(pos)) {
+            action = { type: "swap", a: targeting.first, b: pos };
+        }
+
+        if (!action || !this.applyPowerUp(action)) {
+            this.sfx.error();
+            this.setMessage(
+                isFrozen(this.grid, pos) ? "Frozen cells cannot be moved" : `${this.targetPrompt()} — not that one`,
+            );
+        }
+    }
+
+    /** Resolve a power-up in the engine and animate it; false when the engine refuses it */
+    private applyPowerUp(action: PowerUpAction): boolean {
+        const before = this.captureHistory();
+        const result = this.engine.usePowerUp(action);
+        if (!result) return false;
+
+        if (this.undoAllowed) this.history.push(before);
+        this.recorder.recordPowerUp(action);
+        this.targeting = null;
+        this.renderer.setSelected(null);
+        this.playPowerUp(result);
+        return true;
+    }
+
+    /** Start animating a power-up the engine has already resolved */
+    private playPowerUp(result: PowerUpResult) {
+        const action = result.action;
+        this.powerUse = result;
+        this.phase = Phase.POWER_ANIM;
+        this.setSelection(null);
+        switch (action.type) {
+            case "teleport":
+                moveCell(this.grid, action.from, action.to);
+                this.renderer.startWarpAnimation([action.from, action.to]);
+                this.sfx.move();
+                break;
+            case "swap":
+                swapCells(this.grid, action.a, action.b);
+                this.renderer.startWarpAnimation([action.a, action.b]);
+                this.sfx.move();
+                break;
+            case "delete":
+                this.renderer.startRemoveAnimation(new Set([posKey(action.at)]));
+                this.sfx.pop();
+                break;
+            case "shuffle":
+                // Only the preview changes; there is nothing to animate on the board
+                this.sfx.pop();
+                this.finishPowerUp(result);
+                return;
+        }
+        this.setMessage(`${POWER_UP_LABELS[action.type]}!`);
+        this.updateUI();
+    }
 
+    private onPowerUpAnimComplete(result: PowerUpResult) {
+        if (this.phase === Phase.POWER_ANIM && result.clear) {
+            this.showClear(result.clear);
+            return;
+        }
+        this.finishPowerUp(result);
+    }
+
+    private finishPowerUp(result: PowerUpResult) {
+        this.powerUse = null;
+        this.syncDisplayedState();
+
+        if (this.playback) {
             this.phase = Phase.SELECT;
-            this.setMessage("Select a cell to move");
             this.updateUI();
+            this.syncReplayBar();
+            if (result.gameOver || this.playback.player.isFinished()) {
+                this.endReplay();
+            } else {
+                this.scheduleReplayStep();
+            }
+            return;
+        }
+        if (result.gameOver) {
+            this.gameOver();
             return;
         }
+
+        this.phase = Phase.SELECT;
+        this.saveProgress();
+        if (!result.clear) this.setMessage(`${POWER_UP_LABELS[result.action.type]} used — select a cell to move`);
+        this.updateUI();
     }
 
-    /** Trigger celebration effects when clearing 6+ cells */
-    private triggerCelebration(toRemove: Set<string>) {
-        if (toRemove.size >= 8) {
-            this.renderer.startCelebration(toRemove, 3);
-            this.sfx.celebration(3);
-        } else if (toRemove.size >= 7) {
-            this.renderer.startCelebration(toRemove, 2);
-            this.sfx.celebration(2);
-        } else if (toRemove.size >= 6) {
-            this.renderer.startCelebration(toRemove, 1);
-            this.sfx.celebration(1);
+    private syncPowerUps() {
+        // As with the header, the mover's inventory stays up until their turn has animated
+        const counts = this.engine.powerUps(this.turn?.player);
+        const usable = this.canUsePowerUps() && this.phase !== Phase.GAME_OVER;
+        for (const button of this.powerUpButtons) {
+            const powerUp = button.dataset.powerUp as PowerUp;
+            button.textContent = `${POWER_UP_LABELS[powerUp].toUpperCase()} ×${counts[powerUp]}`;
+            button.disabled = !usable || counts[powerUp] === 0;
+            button.classList.toggle("active", this.targeting?.powerUp === powerUp);
         }
     }
 
-    private spawnPhase() {
-        const occupiedRatio = countOccupied(this.grid) / VALID_CELL_COUNT;
-        const spawnCount = getSpawnCount(this.moveCount, occupiedRatio);
-        const spawnColors = this.nextColors.slice(0, spawnCount);
+    // ─── Hints ─────────────────────────────────────────────────────────────
 
-        const placed = spawnCells(this.grid, spawnColors);
-        this.nextColors = generateNextColors(PREVIEW_SIZE, this.moveCount);
+    /** Hints left in this game; unlimited unless the game is ranked */
+    private hintsLeft(): number {
+        return this.rankedGame ? Math.max(0, RANKED_HINT_LIMIT - this.hintsUsed) : Infinity;
+    }
+
+    /** Ask the evaluator for the best move and loop it on the board until the next selection */
+    private showHint() {
+        if (this.phase !== Phase.SELECT || this.playback || this.autoplay) return;
+        if (this.hintsLeft() === 0) {
+            this.sfx.error();
+            this.setMessage("No hints left this game");
+            return;
+        }
+        const best = findBestMove(this.grid, this.engine.rules);
+        if (!best) return;
+
+        this.setSelection(null);
+        const color = this.grid[best.from.row][best.from.col].color;
+        this.renderer.setHint([best.from, ...best.path], color);
+        this.hintsUsed++;
+        this.saveProgress();
+        this.syncHintButton();
+        this.sfx.pop();
+        if (best.cleared > 0) {
+            this.setMessage(`Hint: clear ${best.cleared} cells for +${best.clearScore}`);
+        } else {
+            this.setMessage(`Hint: grow a group to ${best.groupAfter}`);
+        }
+    }
+
+    private syncHintButton() {
+        const left = this.hintsLeft();
+        this.hintBtn.disabled = !!this.playback || !!this.autoplay || left === 0;
+        this.hintBtn.textContent = Number.isFinite(left) ? `HINT (${left})` : "HINT";
+    }
+
+    // ─── Autoplay ──────────────────────────────────────────────────────────
+
+    private toggleAutoplay() {
+        if (this.autoplay) {
+            this.stopAutoplay();
+            this.setMessage("Autoplay stopped");
+            return;
+        }
+        if (this.playback || this.phase === Phase.GAME_OVER) return;
+        if (this.mode.type !== "endless" && this.mode.type !== "level") {
+            this.sfx.error();
+            this.setMessage("Autoplay is only available in endless games and levels");
+            return;
+        }
+        this.cancelPowerUp();
+        this.autoplay = { bot: createBot(this.botName), timer: undefined };
+        this.setSelection(null);
+        this.applyAnimationSpeed();
+        this.syncAutoplayControls();
         this.updateUI();
+        this.setMessage(`Autoplay: ${this.botSelect.selectedOptions[0]?.text ?? this.botName}`);
+        this.scheduleAutoplayStep();
+    }
 
-        if (placed.length > 0) {
-            this.phase = Phase.SPAWN_ANIM;
-            this.renderer.startSpawnAnimation(placed);
-            this.setMessage(`Spawned ${placed.length} cells`);
+    private stopAutoplay() {
+        if (!this.autoplay) return;
+        clearTimeout(this.autoplay.timer);
+        this.autoplay = null;
+        this.applyAnimationSpeed();
+        this.syncAutoplayControls();
+        this.updateUI();
+    }
+
+    private scheduleAutoplayStep() {
+        const autoplay = this.autoplay;
+        if (!autoplay) return;
+        clearTimeout(autoplay.timer);
+        autoplay.timer = setTimeout(() => this.advanceAutoplay(), 450 / this.autoplaySpeed);
+    }
+
+    private advanceAutoplay() {
+        const autoplay = this.autoplay;
+        if (!autoplay || this.phase !== Phase.SELECT) return;
+        const move = autoplay.bot.chooseMove(getBotView(this.engine));
+        this.autoplayUsed = true;
+        if (!move || !this.playMove(move.from, move.to)) this.stopAutoplay();
+    }
+
+    /** Switch strategy; a running autoplay continues with the new bot */
+    private changeBot(name: BotName) {
+        this.botName = name;
+        localStorage.setItem("atomicon_bot", name);
+        if (this.autoplay) this.autoplay.bot = createBot(name);
+        this.syncAutoplayControls();
+    }
+
+    private cycleAutoplaySpeed() {
+        const idx = AUTOPLAY_SPEEDS.indexOf(this.autoplaySpeed);
+        this.autoplaySpeed = AUTOPLAY_SPEEDS[(idx + 1) % AUTOPLAY_SPEEDS.length];
+        this.applyAnimationSpeed();
+        this.syncAutoplayControls();
+    }
+
+    private syncAutoplayControls() {
+        this.autoplayBtn.textContent = `AUTOPLAY: ${this.autoplay ? "ON" : "OFF"}`;
+        this.autoplayBtn.classList.toggle("active", !!this.autoplay);
+        this.botSelect.value = this.botName;
+        this.autoplaySpeedBtn.textContent = `${this.autoplaySpeed}×`;
+    }
+
+    // ─── Replays ───────────────────────────────────────────────────────────
+
+    private startReplay(replay: Replay) {
+        this.stopReplay();
+        this.stopAutoplay();
+        const player = new ReplayPlayer(replay);
+        this.playback = { player, playing: true, speed: 1, timer: undefined };
+        this.resetBoard(player.engine);
+        this.replayBar.classList.add("visible");
+        this.syncReplayBar();
+        this.setMessage(`Replay — final score ${replay.score}`);
+        this.scheduleReplayStep();
+    }
+
+    /** Leave playback and go back to the interrupted game, if any */
+    private exitReplay() {
+        this.stopReplay();
+        if (!this.resumeSavedGame()) this.newGame();
+    }
+
+    private stopReplay() {
+        if (!this.playback) return;
+        clearTimeout(this.playback.timer);
+        this.playback = null;
+        this.replayBar.classList.remove("visible");
+        this.applyAnimationSpeed();
+    }
+
+    private scheduleReplayStep() {
+        const playback = this.playback;
+        if (!playback || !playback.playing) return;
+        clearTimeout(playback.timer);
+        playback.timer = setTimeout(() => this.advanceReplay(), 450 / playback.speed);
+    }
+
+    private advanceReplay() {
+        const playback = this.playback;
+        if (!playback || this.phase !== Phase.SELECT) return;
+        const step = playback.player.step();
+        if (!step) {
+            this.endReplay();
+            return;
+        }
+        if ("action" in step) this.playPowerUp(step);
+        else this.playTurn(step);
+        this.syncReplayBar();
+    }
+
+    private endReplay() {
+        const playback = this.playback;
+        if (!playback) return;
+        playback.playing = false;
+        clearTimeout(playback.timer);
+        this.syncReplayBar();
+        this.setMessage(
+            playback.player.isDesynced()
+                ? "Replay does not match this version of the game"
+                : `Replay finished — ${this.score} points`,
+        );
+    }
+
+    private toggleReplayPlaying() {
+        const playback = this.playback;
+        if (!playback) return;
+        if (playback.player.isFinished()) {
+            // Restart from the beginning, keeping the chosen speed
+            const speed = playback.speed;
+            this.startReplay(playback.player.replay);
+            this.playback!.speed = speed;
+            this.syncReplayBar();
+            return;
+        }
+        playback.playing = !playback.playing;
+        if (playback.playing) {
+            this.scheduleReplayStep();
         } else {
-            // Board is full
-            this.gameOver();
+            clearTimeout(playback.timer);
         }
+        this.syncReplayBar();
     }
 
-    private gameOver() {
-        this.phase = Phase.GAME_OVER;
-        this.sfx.gameOver();
-        this.submitLeaderboard(this.score);
-        this.finalScoreEl.textContent = String(this.score);
-        this.overlay.classList.add("visible");
-        this.setMessage("Game Over");
+    private stepReplay() {
+        const playback = this.playback;
+        if (!playback) return;
+        playback.playing = false;
+        clearTimeout(playback.timer);
+        this.advanceReplay();
+        this.syncReplayBar();
+    }
+
+    private cycleReplaySpeed() {
+        const playback = this.playback;
+        if (!playback) return;
+        const idx = REPLAY_SPEEDS.indexOf(playback.speed);
+        playback.speed = REPLAY_SPEEDS[(idx + 1) % REPLAY_SPEEDS.length];
+        this.syncReplayBar();
+    }
+
+    private syncReplayBar() {
+        const playback = this.playback;
+        if (!playback) return;
+        this.applyAnimationSpeed();
+        this.replayPlayBtn.textContent = playback.playing ? "⏸" : "▶";
+        this.replaySpeedBtn.textContent = `${playback.speed}×`;
+        this.replayProgressEl.textContent = `${playback.player.position} / ${playback.player.length}`;
+    }
+
+    private copyReplayCode() {
+        if (!this.lastReplay) return;
+        const code = encodeReplay(this.lastReplay);
+        if (navigator.clipboard) {
+            navigator.clipboard.writeText(code).then(
+                () => this.setMessage("Replay code copied"),
+                () => window.prompt("Copy this replay code", code),
+            );
+        } else {
+            window.prompt("Copy this replay code", code);
+        }
+    }
+
+    private loadReplayCode() {
+        const code = window.prompt("Paste a replay code");
+        if (!code) return;
+        const replay = decodeReplay(code);
+        if (!replay) {
+            this.sfx.error();
+            this.setMessage("Invalid replay code");
+            return;
+        }
+        this.startReplay(replay);
     }
 
     // ─── Render loop ───────────────────────────────────────────────────────
 
+    /** Run the blitz clock down while the player can act; animations and open panels pause it */
+    private tickClock(elapsed: number) {
+        const waiting = this.phase === Phase.SELECT || this.isTargeting();
+        if (this.mode.type !== "blitz" || !waiting || this.playback || this.isPanelOpen()) return;
+        this.clockMs = Math.max(0, this.clockMs - elapsed);
+        this.syncModeBar();
+        if (this.clockMs === 0) {
+            this.cancelPowerUp();
+            this.setSelection(null);
+            this.gameOver();
+            this.setMessage("Time's up!");
+        }
+    }
+
+    /** Like the blitz clock it stops in panels and hidden tabs; finished games, replays and idle spells add nothing */
+    private tickPlayTime(elapsed: number, now: number) {
+        if (this.phase === Phase.GAME_OVER || this.playback || this.isPanelOpen()) return;
+        if (now - this.lastInputTime > IDLE_AFTER_MS) return;
+        this.playTimeMs += elapsed;
+    }
+
     private loop = () => {
+        const now = performance.now();
+        // Frames stop in a hidden tab; cap the step so the clocks do not jump on return
+        const elapsed = Math.min(now - this.lastFrameTime, 100);
+        this.tickClock(elapsed);
+        this.tickPlayTime(elapsed, now);
+        this.lastFrameTime = now;
+        this.pollGamepad();
         this.renderer.draw(this.grid);
         requestAnimationFrame(this.loop);
     };
@@ -0,0 +1,41 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ *
+ * The whole generator state is a single 32-bit integer, so it can be
+ * captured with `getState()` and restored later to replay the exact same
+ * sequence of draws.
+ */
+export class Rng {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Uniform float in [0, 1) */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Uniform integer in [0, max) */
+    nextInt(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number) {
+        this.state = state >>> 0;
+    }
+}
+
+/** Fresh non-deterministic seed for a new game */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -1,12 +1,20 @@
 import {
     EMPTY_COLOR,
     getAllValidPositions,
-    HEX_RADIUS,
     JOKER_COLOR,
     type CellColor,
+    type CellSpecial,
     type Grid,
     type Position,
+    type RuleSet,
 } from "./game";
+import { Easings, TweenScheduler } from "./tween";
+
+/** One labelled line of a score popup, e.g. "Length" / "+4" */
+export interface ScorePart {
+    label: string;
+    value: string;
+}
 
 interface CellTheme {
     core: string;
@@ -17,6 +25,17 @@ interface CellTheme {
 
 const SQRT3 = Math.sqrt(3);
 const BOARD_PADDING = 30;
+/** Per-frame effects are tuned in steps of one 60 fps frame */
+const FRAME_MS = 1000 / 60;
+/** Longest gap counted between two frames, so a background tab does not jump every effect to its end */
+const MAX_FRAME_MS = 100;
+
+/** Gameplay animation lengths in ms at speed 1 */
+const PATH_MIN_MS = 256;
+const PATH_SEGMENT_MS = 42;
+const SPAWN_MS = 220;
+const REMOVE_MS = 245;
+const WARP_MS = 330;
 
 const CELL_THEMES: CellTheme[] = [
     /* 0 Cat  – vivid red    */ {
@@ -84,17 +103,36 @@ const CHARACTER_NAMES = ["cat", "fish", "frog", "fox", "owl", "bunny", "penguin"
 export class Renderer {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
-    private validPositions: Position[];
+    private validPositions: readonly Position[];
+    /** Permanent wall cells: drawn as part of the board but never playable */
+    private walls: readonly Position[];
     private centers = new Map<string, { x: number; y: number }>();
     private hexRadius = 20;
     private boardSize = 0;
+    /** Time in 60 fps frames; drives looping waves and pulses */
     private animFrame = 0;
+    private lastFrameTime: number | null = null;
+    /** 60 fps frames elapsed since the previous draw */
+    private frameStep = 1;
+    /** Move / spawn / remove / warp tweens; the animation speed applies to these only */
+    private readonly tweens = new TweenScheduler();
 
     private selectedPos: Position | null = null;
+    private cursorPos: Position | null = null;
+    /** Path and ghost cell shown while dragging or hovering a destination */
+    private pathPreview: { path: Position[]; color: CellColor } | null = null;
+    /** Cells reachable from the selection; values are projected clear scores (0 = no clear) */
+    private moveHints: Map<string, number> | null = null;
+    /** Cells highlighted by a long-press inspection */
+    private inspectCells: Set<string> | null = null;
+    /** Suggested move, looped as a ghost cell travelling along its path */
+    private hint: { path: Position[]; color: CellColor } | null = null;
     private selectedBounce = 0;
-    private pathAnim: { path: Position[]; progress: number; color: CellColor } | null = null;
+    private pathAnim: { path: Position[]; progress: number; color: CellColor; special?: CellSpecial } | null = null;
     private spawnAnim: { positions: Position[]; progress: number } | null = null;
     private removeAnim: { positions: Set<string>; progress: number } | null = null;
+    /** Cells rearranged by a power-up: they materialise inside a closing vortex */
+    private warpAnim: { positions: Position[]; progress: number } | null = null;
 
     /** Trail particles emitted during path movement */
     private trailParticles: { x: number; y: number; vx: number; vy: number; life: number; color: string }[] = [];
@@ -113,6 +151,10 @@ export class Renderer {
     }[] = [];
     private screenShake = 0;
     private flashAlpha = 0;
+    /** Floating score breakdowns over recent clears; `life` runs from 1 down to 0 */
+    private scorePopups: { x: number; y: number; total: number; parts: ScorePart[]; life: number }[] = [];
+    /** Badge announcing an unlocked achievement; `life` runs from 1 down to 0 */
+    private achievementBadge: { name: string; life: number } | null = null;
 
     private comboLevel = 0; // 0 = no combo, 2 = 2x, 3 = 3x, etc.
 
@@ -136,26 +178,36 @@ export class Renderer {
 
     onAnimationComplete: (() => void) | null = null;
 
-    constructor(canvas: HTMLCanvasElement) {
+    constructor(canvas: HTMLCanvasElement, rules: RuleSet) {
         this.canvas = canvas;
         this.ctx = canvas.getContext("2d")!;
-        this.validPositions = getAllValidPositions();
+        this.validPositions = getAllValidPositions(rules);
+        this.walls = rules.layout.walls;
         this.resize();
     }
 
-    private posKey(pos: Position): string {
-        return `${pos.row},${pos.col}`;
+    /** Switch to another board shape; clears any per-cell overlays */
+    setRules(rules: RuleSet) {
+        this.validPositions = getAllValidPositions(rules);
+        this.walls = rules.layout.walls;
+        this.selectedPos = null;
+        this.cursorPos = null;
+        this.pathPreview = null;
+        this.moveHints = null;
+        this.inspectCells = null;
+        this.hint = null;
+        this.resize();
     }
 
-    private axial(pos: Position): { q: number; r: number } {
-        return { q: pos.col - HEX_RADIUS, r: pos.row - HEX_RADIUS };
+    private posKey(pos: Position): string {
+        return `${pos.row},${pos.col}`;
     }
 
+    /** Layout storage is axial (row = r, col = q); `resize` centres the result */
     private unitCenter(pos: Position): { x: number; y: number } {
-        const { q, r } = this.axial(pos);
         return {
-            x: SQRT3 * (q + r / 2),
-            y: 1.5 * r,
+            x: SQRT3 * (pos.col + pos.row / 2),
+            y: 1.5 * pos.row,
         };
     }
 
@@ -174,7 +226,7 @@ export class Renderer {
         let maxX = -Infinity;
         let minY = Infinity;
         let maxY = -Infinity;
-        for (const pos of this.validPositions) {
+        for (const pos of [...this.validPositions, ...this.walls]) {
             const p = this.unitCenter(pos);
             minX = Math.min(minX, p.x);
             maxX = Math.max(maxX, p.x);
@@ -191,7 +243,7 @@ export class Renderer {
         const unitMidY = (minY + maxY) / 2;
 
         this.centers.clear();
-        for (const pos of this.validPositions) {
+        for (const pos of [...this.validPositions, ...this.walls]) {
             const u = this.unitCenter(pos);
             const x = boardCenterX + (u.x - unitMidX) * this.hexRadius;
             const y = boardCenterY + (u.y - unitMidY) * this.hexRadius;
@@ -258,20 +310,87 @@ export class Renderer {
         this.selectedBounce = 0;
     }
 
+    /** Keyboard / gamepad focus cursor; null hides it */
+    setCursor(pos: Position | null) {
+        this.cursorPos = pos;
+    }
+
+    setPathPreview(path: Position[] | null, color: CellColor = EMPTY_COLOR) {
+        this.pathPreview = path && path.length > 1 ? { path, color } : null;
+    }
+
+    setMoveHints(hints: Map<string, number> | null) {
+        this.moveHints = hints;
+    }
+
+    setInspect(cells: Set<string> | null) {
+        this.inspectCells = cells;
+    }
+
+    setHint(path: Position[] | null, color: CellColor = EMPTY_COLOR) {
+        this.hint = path && path.length > 1 ? { path, color } : null;
+    }
+
     setComboLevel(level: number) {
         this.comboLevel = level;
     }
 
-    startPathAnimation(path: Position[], color: CellColor) {
-        this.pathAnim = { path, progress: 0, color };
+    /** Multiplier for move / spawn / remove / warp animations; Infinity makes them instant */
+    setAnimationSpeed(speed: number) {
+        this.tweens.speed = speed;
+    }
+
+    startPathAnimation(path: Position[], color: CellColor, special?: CellSpecial) {
+        const anim = { path, progress: 0, color, special };
+        this.pathAnim = anim;
+        const duration = Math.max(PATH_MIN_MS, (path.length - 1) * PATH_SEGMENT_MS);
+        this.tweens.add({
+            duration,
+            easing: Easings.easeInOutQuad,
+            onUpdate: (value) => (anim.progress = value),
+            onComplete: () => {
+                if (this.pathAnim === anim) this.pathAnim = null;
+            },
+        });
     }
 
     startSpawnAnimation(positions: Position[]) {
-        this.spawnAnim = { positions, progress: 0 };
+        const anim = { positions, progress: 0 };
+        this.spawnAnim = anim;
+        this.tweens.add({
+            duration: SPAWN_MS,
+            easing: Easings.easeOutCubic,
+            onUpdate: (value) => (anim.progress = value),
+            onComplete: () => {
+                if (this.spawnAnim === anim) this.spawnAnim = null;
+            },
+        });
     }
 
     startRemoveAnimation(positions: Set<string>) {
-        this.removeAnim = { positions, progress: 0 };
+        const anim = { positions, progress: 0 };
+        this.removeAnim = anim;
+        this.tweens.add({
+            duration: REMOVE_MS,
+            easing: Easings.easeOutQuad,
+            onUpdate: (value) => (anim.progress = value),
+            onComplete: () => {
+                if (this.removeAnim === anim) this.removeAnim = null;
+            },
+        });
+    }
+
+    startWarpAnimation(positions: Position[]) {
+        const anim = { positions, progress: 0 };
+        this.warpAnim = anim;
+        this.tweens.add({
+            duration: WARP_MS,
+            easing: Easings.easeOutCubic,
+            onUpdate: (value) => (anim.progress = value),
+            onComplete: () => {
+                if (this.warpAnim === anim) this.warpAnim = null;
+            },
+        });
     }
 
     /**
@@ -348,12 +467,49 @@ export class Renderer {
         else if (tier >= 2) this.screenShake = 3;
     }
 
+    /** Float a clear's total and its parts up from the centre of mass of the cleared cells */
+    startScorePopup(positions: Set<string>, total: number, parts: ScorePart[]) {
+        const origins = [...positions].flatMap((key) => this.centers.get(key) ?? []);
+        if (origins.length === 0) return;
+        const x = origins.reduce((sum, p) => sum + p.x, 0) / origins.length;
+        const y = origins.reduce((sum, p) => sum + p.y, 0) / origins.length;
+        this.scorePopups.push({ x, y, total, parts, life: 1 });
+    }
+
+    /** Golden badge sliding in at the top of the board with a shower of stars */
+    startAchievementEffect(name: string) {
+        this.achievementBadge = { name, life: 1 };
+        const cx = this.boardSize / 2;
+        const palette = ["#ffd86b", "#ffe59e", "#FFFFFF"];
+        for (let i = 0; i < 40; i++) {
+            const angle = Math.PI * (0.15 + Math.random() * 0.7);
+            const speed = 1.5 + Math.random() * 3;
+            const life = 0.8 + Math.random() * 0.8;
+            this.celebrationParticles.push({
+                x: cx + (Math.random() - 0.5) * 160,
+                y: 44,
+                vx: Math.cos(angle) * speed * (Math.random() > 0.5 ? 1 : -1),
+                vy: Math.sin(angle) * speed * 0.5,
+                life,
+                maxLife: life,
+                color: palette[Math.floor(Math.random() * palette.length)],
+                size: 2 + Math.random() * 4,
+                type: Math.random() > 0.5 ? "star" : "spark",
+            });
+        }
+        this.flashAlpha = Math.max(this.flashAlpha, 0.12);
+    }
+
     isAnimating(): boolean {
-        return !!(this.pathAnim || this.spawnAnim || this.removeAnim);
+        return !!(this.pathAnim || this.spawnAnim || this.removeAnim || this.warpAnim);
     }
 
     draw(grid: Grid) {
-        this.animFrame++;
+        const now = performance.now();
+        const dt = this.lastFrameTime === null ? FRAME_MS : Math.min(MAX_FRAME_MS, now - this.lastFrameTime);
+        this.lastFrameTime = now;
+        this.frameStep = dt / FRAME_MS;
+        this.animFrame += this.frameStep;
         const ctx = this.ctx;
 
         // Screen shake offset
@@ -362,7 +518,7 @@ export class Renderer {
             const sx = (Math.random() - 0.5) * this.screenShake * 2;
             const sy = (Math.random() - 0.5) * this.screenShake * 2;
             ctx.translate(sx, sy);
-            this.screenShake *= 0.88;
+            this.screenShake *= 0.88 ** this.frameStep;
             if (this.screenShake < 0.1) this.screenShake = 0;
         }
 
@@ -382,6 +538,8 @@ export class Renderer {
 
         this.drawSceneParticles();
 
+        this.drawWalls();
+
         const wave = Math.sin(this.animFrame * 0.015) * 0.05 + 1;
         for (const pos of this.validPositions) {
             const center = this.centers.get(this.posKey(pos));
@@ -399,7 +557,9 @@ export class Renderer {
             ctx.lineWidth = 0.7;
             ctx.stroke();
 
-            const color = grid[pos.row][pos.col].color;
+            if (grid[pos.row][pos.col].target) this.drawTarget(center.x, center.y);
+
+            const { color, special } = grid[pos.row][pos.col];
             if (color === EMPTY_COLOR) continue;
 
             const key = this.posKey(pos);
@@ -410,6 +570,8 @@ export class Renderer {
                     color,
                     1 - this.removeAnim.progress,
                     1 + this.removeAnim.progress * 0.4,
+                    false,
+                    special,
                 );
                 continue;
             }
@@ -419,39 +581,204 @@ export class Renderer {
                 if (last && last.row === pos.row && last.col === pos.col) continue;
             }
 
+            if (this.warpAnim && this.warpAnim.positions.some((p) => p.row === pos.row && p.col === pos.col)) {
+                const progress = this.warpAnim.progress;
+                this.drawWarp(center.x, center.y, progress);
+                this.drawMicroCell(center.x, center.y, color, progress, 0.4 + progress * 0.6, false, special);
+                continue;
+            }
+
             if (this.spawnAnim && this.spawnAnim.positions.some((p) => p.row === pos.row && p.col === pos.col)) {
-                this.drawMicroCell(center.x, center.y, color, this.spawnAnim.progress, this.spawnAnim.progress);
+                this.drawMicroCell(
+                    center.x,
+                    center.y,
+                    color,
+                    this.spawnAnim.progress,
+                    this.spawnAnim.progress,
+                    false,
+                    special,
+                );
                 continue;
             }
 
             const selected = this.selectedPos?.row === pos.row && this.selectedPos?.col === pos.col;
             const pulse = selected ? Math.sin(this.selectedBounce) * 0.08 : 0;
-            this.drawMicroCell(center.x, center.y, color, 1, 1 + pulse, selected);
+            this.drawMicroCell(center.x, center.y, color, 1, 1 + pulse, selected, special);
         }
 
+        this.drawMoveHints();
+        this.drawInspect();
+        this.drawHint();
+        this.drawPathPreview();
+        this.drawCursor();
+
         if (this.pathAnim && this.pathAnim.path.length > 0) {
             const p = this.interpolatedPathPosition(this.pathAnim.path, this.pathAnim.progress);
             this.emitTrailParticles(p.x, p.y, this.pathAnim.color);
-            this.drawMicroCell(p.x, p.y, this.pathAnim.color, 1, 1, true);
+            this.drawMicroCell(p.x, p.y, this.pathAnim.color, 1, 1, true, this.pathAnim.special);
             this.drawPathTrail(this.pathAnim.path, this.pathAnim.progress);
         }
 
         this.updateAndDrawTrailParticles();
         this.updateAndDrawCelebrationParticles();
+        this.drawScorePopups();
+        this.drawAchievementBadge();
 
         // Flash overlay
         if (this.flashAlpha > 0.005) {
             ctx.fillStyle = `rgba(255, 255, 255, ${this.flashAlpha})`;
             ctx.fillRect(-20, -20, this.boardSize + 40, this.boardSize + 40);
-            this.flashAlpha *= 0.88;
+            this.flashAlpha *= 0.88 ** this.frameStep;
             if (this.flashAlpha < 0.005) this.flashAlpha = 0;
         }
 
-        this.updateAnimations();
-        this.selectedBounce += 0.14;
+        this.updateAnimations(dt);
+        this.selectedBounce += 0.14 * this.frameStep;
         ctx.restore(); // end screen shake
     }
 
+    private drawWalls() {
+        const ctx = this.ctx;
+        for (const pos of this.walls) {
+            const center = this.centers.get(this.posKey(pos));
+            if (!center) continue;
+            this.drawHex(center.x, center.y, this.hexRadius * 0.96);
+            const fill = ctx.createLinearGradient(
+                center.x,
+                center.y - this.hexRadius,
+                center.x,
+                center.y + this.hexRadius,
+            );
+            fill.addColorStop(0, "#3a4a63");
+            fill.addColorStop(1, "#1c2536");
+            ctx.fillStyle = fill;
+            ctx.fill();
+            ctx.strokeStyle = "rgba(170, 195, 230, 0.28)";
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+        }
+    }
+
+    /** Power-up vortex: spiral arms that tighten and fade as the cell appears */
+    private drawWarp(cx: number, cy: number, progress: number) {
+        const ctx = this.ctx;
+        const radius = this.hexRadius * (1.1 - progress * 0.5);
+        ctx.save();
+        ctx.translate(cx, cy);
+        ctx.rotate(progress * Math.PI * 3);
+        ctx.strokeStyle = `rgba(190, 150, 255, ${0.85 * (1 - progress)})`;
+        ctx.lineWidth = 2.5;
+        ctx.lineCap = "round";
+        for (let arm = 0; arm < 3; arm++) {
+            const start = (arm * Math.PI * 2) / 3;
+            ctx.beginPath();
+            ctx.arc(0, 0, radius, start, start + Math.PI * 0.45);
+            ctx.stroke();
+        }
+        ctx.restore();
+    }
+
+    /** Puzzle target marker: a slowly turning dashed ring under the cell */
+    private drawTarget(cx: number, cy: number) {
+        const ctx = this.ctx;
+        ctx.save();
+        ctx.setLineDash([this.hexRadius * 0.18, this.hexRadius * 0.12]);
+        ctx.lineDashOffset = -this.animFrame * 0.3;
+        ctx.strokeStyle = "rgba(255, 216, 107, 0.75)";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(cx, cy, this.hexRadius * 0.78, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    private drawInspect() {
+        if (!this.inspectCells) return;
+        const ctx = this.ctx;
+        const pulse = Math.sin(this.animFrame * 0.12) * 0.5 + 0.5;
+        for (const k of this.inspectCells) {
+            const center = this.centers.get(k);
+            if (!center) continue;
+            this.drawHex(center.x, center.y, this.hexRadius * 0.88);
+            ctx.fillStyle = `rgba(127, 239, 206, ${0.08 + pulse * 0.08})`;
+            ctx.fill();
+            ctx.strokeStyle = "rgba(127, 239, 206, 0.75)";
+            ctx.lineWidth = 1.8;
+            ctx.stroke();
+        }
+    }
+
+    private drawMoveHints() {
+        if (!this.moveHints) return;
+        const ctx = this.ctx;
+        for (const [k, score] of this.moveHints) {
+            const center = this.centers.get(k);
+            if (!center) continue;
+            this.drawHex(center.x, center.y, this.hexRadius * 0.82);
+            if (score > 0) {
+                ctx.fillStyle = "rgba(255, 216, 107, 0.14)";
+                ctx.fill();
+                ctx.strokeStyle = "rgba(255, 216, 107, 0.7)";
+                ctx.lineWidth = 1.6;
+                ctx.stroke();
+                ctx.fillStyle = "#ffe59e";
+                ctx.font = `700 ${Math.max(9, this.hexRadius * 0.42)}px "Segoe UI", system-ui, sans-serif`;
+                ctx.textAlign = "center";
+                ctx.textBaseline = "middle";
+                ctx.fillText(`+${score}`, center.x, center.y);
+            } else {
+                ctx.fillStyle = "rgba(145, 220, 255, 0.07)";
+                ctx.fill();
+            }
+        }
+    }
+
+    private drawHint() {
+        if (!this.hint) return;
+        const { path, color } = this.hint;
+        const ctx = this.ctx;
+        const pulse = Math.sin(this.animFrame * 0.12) * 0.5 + 0.5;
+        for (const pos of [path[0], path[path.length - 1]]) {
+            const center = this.centers.get(this.posKey(pos));
+            if (!center) continue;
+            this.drawHex(center.x, center.y, this.hexRadius * (0.86 + pulse * 0.04));
+            ctx.strokeStyle = `rgba(255, 216, 107, ${0.45 + pulse * 0.45})`;
+            ctx.lineWidth = 2.2;
+            ctx.stroke();
+        }
+
+        // Loop the ghost along the path, pausing briefly at the destination
+        const cycle = 40 + path.length * 12;
+        const progress = Math.min(1, (this.animFrame % cycle) / (cycle - 20));
+        this.drawPathTrail(path, progress);
+        const p = this.interpolatedPathPosition(path, progress);
+        this.drawMicroCell(p.x, p.y, color, 0.55, 0.9);
+    }
+
+    private drawPathPreview() {
+        if (!this.pathPreview) return;
+        const { path, color } = this.pathPreview;
+        this.drawPathTrail(path, 1);
+        const end = this.centers.get(this.posKey(path[path.length - 1]));
+        if (end) this.drawMicroCell(end.x, end.y, color, 0.5, 0.9);
+    }
+
+    private drawCursor() {
+        if (!this.cursorPos) return;
+        const center = this.centers.get(this.posKey(this.cursorPos));
+        if (!center) return;
+        const ctx = this.ctx;
+        const pulse = Math.sin(this.animFrame * 0.1) * 0.5 + 0.5;
+
+        this.drawHex(center.x, center.y, this.hexRadius * (0.86 + pulse * 0.04));
+        ctx.strokeStyle = `rgba(255, 232, 124, ${0.6 + pulse * 0.35})`;
+        ctx.lineWidth = 2.5;
+        ctx.shadowBlur = 10;
+        ctx.shadowColor = "rgba(255, 232, 124, 0.8)";
+        ctx.stroke();
+        ctx.shadowBlur = 0;
+    }
+
     /** Advance ambient color cycling timer */
     private tickAmbientColor() {
         const now = performance.now();
@@ -577,8 +904,8 @@ export class Renderer {
     /** Emit a few sparkle particles at the moving cell's current position */
     private emitTrailParticles(cx: number, cy: number, color: CellColor) {
         const theme = color === JOKER_COLOR ? JOKER_THEME : CELL_THEMES[color % CELL_THEMES.length];
-        // Emit 1-2 particles per frame
-        const count = 1 + (this.animFrame % 2 === 0 ? 1 : 0);
+        // 1.5 particles per 60 fps frame on average, whatever the frame rate
+        const count = Math.floor(1.5 * this.frameStep + Math.random());
         for (let i = 0; i < count; i++) {
             const angle = Math.random() * Math.PI * 2;
             const speed = 0.3 + Math.random() * 0.8;
@@ -596,14 +923,16 @@ export class Renderer {
     /** Update and render trail sparkle particles */
     private updateAndDrawTrailParticles() {
         const ctx = this.ctx;
+        const step = this.frameStep;
         const decay = 0.025;
+        const damping = 0.96 ** step;
         for (let i = this.trailParticles.length - 1; i >= 0; i--) {
             const p = this.trailParticles[i];
-            p.x += p.vx;
-            p.y += p.vy;
-            p.vx *= 0.96;
-            p.vy *= 0.96;
-            p.life -= decay;
+            p.x += p.vx * step;
+            p.y += p.vy * step;
+            p.vx *= damping;
+            p.vy *= damping;
+            p.life -= decay * step;
             if (p.life <= 0) {
                 this.trailParticles.splice(i, 1);
                 continue;
@@ -629,17 +958,95 @@ export class Renderer {
         }
     }
 
+    private drawScorePopups() {
+        const ctx = this.ctx;
+        const lineHeight = 13;
+        for (let i = this.scorePopups.length - 1; i >= 0; i--) {
+            const popup = this.scorePopups[i];
+            popup.life -= 0.009 * this.frameStep;
+            if (popup.life <= 0) {
+                this.scorePopups.splice(i, 1);
+                continue;
+            }
+
+            // Rise steadily and fade out over the last 30%
+            const alpha = Math.min(1, popup.life / 0.3);
+            const top = popup.y - 18 - (1 - popup.life) * 36;
+            ctx.font = "600 11px sans-serif";
+            const partsWidth = Math.max(0, ...popup.parts.map((p) => ctx.measureText(`${p.label} ${p.value}`).width));
+            const halfWidth = Math.max(partsWidth, 48) / 2 + 8;
+            // Keep the whole popup on the board
+            const x = Math.min(Math.max(popup.x, halfWidth), this.boardSize - halfWidth);
+
+            ctx.save();
+            ctx.globalAlpha = alpha;
+            ctx.textAlign = "center";
+            ctx.textBaseline = "middle";
+            ctx.shadowBlur = 6;
+            ctx.shadowColor = "rgba(0, 0, 0, 0.8)";
+            ctx.font = "800 20px sans-serif";
+            ctx.fillStyle = "#ffe59e";
+            ctx.fillText(`+${popup.total}`, x, top);
+            ctx.font = "600 11px sans-serif";
+            ctx.fillStyle = "#dcfff3";
+            popup.parts.forEach((part, j) => {
+                ctx.fillText(`${part.label} ${part.value}`, x, top + 18 + j * lineHeight);
+            });
+            ctx.restore();
+        }
+    }
+
+    private drawAchievementBadge() {
+        const badge = this.achievementBadge;
+        if (!badge) return;
+        badge.life -= 0.006 * this.frameStep;
+        if (badge.life <= 0) {
+            this.achievementBadge = null;
+            return;
+        }
+
+        const ctx = this.ctx;
+        // Slide in over the first 10%, fade out over the last 25%
+        const enter = Math.min(1, (1 - badge.life) / 0.1);
+        const alpha = Math.min(enter, badge.life / 0.25, 1);
+        const y = 14 - (1 - enter) * 30;
+        ctx.font = "700 14px sans-serif";
+        const text = `★ ${badge.name}`;
+        const width = ctx.measureText(text).width + 36;
+        const x = (this.boardSize - width) / 2;
+
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.shadowBlur = 18;
+        ctx.shadowColor = "rgba(255, 216, 107, 0.6)";
+        ctx.fillStyle = "rgba(40, 30, 8, 0.9)";
+        ctx.beginPath();
+        ctx.roundRect(x, y, width, 34, 17);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+        ctx.strokeStyle = "#ffd86b";
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        ctx.fillStyle = "#ffe59e";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(text, this.boardSize / 2, y + 17);
+        ctx.restore();
+    }
+
     /** Update and render celebration particles */
     private updateAndDrawCelebrationParticles() {
         const ctx = this.ctx;
+        const step = this.frameStep;
+        const damping = 0.985 ** step;
         for (let i = this.celebrationParticles.length - 1; i >= 0; i--) {
             const p = this.celebrationParticles[i];
-            p.x += p.vx;
-            p.y += p.vy;
-            p.vy += 0.06; // gravity
-            p.vx *= 0.985;
-            p.vy *= 0.985;
-            p.life -= 0.016;
+            p.x += p.vx * step;
+            p.y += p.vy * step;
+            p.vy += 0.06 * step; // gravity
+            p.vx *= damping;
+            p.vy *= damping;
+            p.life -= 0.016 * step;
             if (p.life <= 0) {
                 this.celebrationParticles.splice(i, 1);
                 continue;
@@ -706,41 +1113,22 @@ export class Renderer {
             .padStart(2, "0");
     }
 
-    private updateAnimations() {
-        let finished = false;
-
-        if (this.pathAnim) {
-            const segments = Math.max(1, this.pathAnim.path.length - 1);
-            // Slower movement: ~60% of original speed
-            this.pathAnim.progress += Math.min(0.065, 0.4 / segments);
-            if (this.pathAnim.progress >= 1) {
-                this.pathAnim = null;
-                finished = true;
-            }
-        }
-
-        if (this.spawnAnim) {
-            this.spawnAnim.progress += 0.075;
-            if (this.spawnAnim.progress >= 1) {
-                this.spawnAnim = null;
-                finished = true;
-            }
-        }
-
-        if (this.removeAnim) {
-            this.removeAnim.progress += 0.068;
-            if (this.removeAnim.progress >= 1) {
-                this.removeAnim = null;
-                finished = true;
-            }
-        }
-
-        if (finished && !this.isAnimating() && this.onAnimationComplete) {
+    /** Advance the gameplay tweens; once the last one ends, report it */
+    private updateAnimations(dt: number) {
+        if (this.tweens.update(dt) && !this.isAnimating() && this.onAnimationComplete) {
             this.onAnimationComplete();
         }
     }
 
-    private drawMicroCell(cx: number, cy: number, color: CellColor, alpha: number, scale: number, selected = false) {
+    private drawMicroCell(
+        cx: number,
+        cy: number,
+        color: CellColor,
+        alpha: number,
+        scale: number,
+        selected = false,
+        special?: CellSpecial,
+    ) {
         const ctx = this.ctx;
         const radius = this.hexRadius * 0.52 * scale;
         const theme = color === JOKER_COLOR ? JOKER_THEME : CELL_THEMES[color % CELL_THEMES.length];
@@ -801,6 +1189,18 @@ export class Renderer {
             }
         }
 
+        switch (special) {
+            case "bomb":
+                this.drawBomb(cx, cy, radius, t);
+                break;
+            case "frozen":
+                this.drawFrost(cx, cy, radius, t);
+                break;
+            case "multiplier":
+                this.drawMultiplier(cx, cy, radius, t);
+                break;
+        }
+
         ctx.restore();
     }
 
@@ -1432,6 +1832,114 @@ export class Renderer {
         }
     }
 
+    /* ── SPECIALS (drawn over the character) ── */
+
+    /** Round bomb with a sparking fuse, perched on the character's shoulder */
+    private drawBomb(cx: number, cy: number, r: number, t: number) {
+        const ctx = this.ctx;
+        const bx = cx + r * 0.62;
+        const by = cy - r * 0.58;
+        const br = r * 0.32;
+
+        const body = ctx.createRadialGradient(bx - br * 0.35, by - br * 0.35, br * 0.1, bx, by, br);
+        body.addColorStop(0, "#5a6275");
+        body.addColorStop(1, "#14161f");
+        ctx.fillStyle = body;
+        ctx.beginPath();
+        ctx.arc(bx, by, br, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.strokeStyle = "rgba(255,255,255,0.35)";
+        ctx.lineWidth = r * 0.04;
+        ctx.stroke();
+
+        // Fuse
+        const tipX = bx + br * 0.9;
+        const tipY = by - br * 1.25;
+        ctx.strokeStyle = "#c8a66a";
+        ctx.lineWidth = r * 0.06;
+        ctx.lineCap = "round";
+        ctx.beginPath();
+        ctx.moveTo(bx + br * 0.5, by - br * 0.75);
+        ctx.quadraticCurveTo(bx + br * 0.45, by - br * 1.3, tipX, tipY);
+        ctx.stroke();
+
+        // Flickering spark
+        const flicker = 0.7 + Math.sin(t * 9) * 0.3;
+        const spark = ctx.createRadialGradient(tipX, tipY, 0, tipX, tipY, br * 0.7 * flicker);
+        spark.addColorStop(0, "rgba(255,255,220,1)");
+        spark.addColorStop(0.4, "rgba(255,190,60,0.9)");
+        spark.addColorStop(1, "rgba(255,90,30,0)");
+        ctx.fillStyle = spark;
+        ctx.beginPath();
+        ctx.arc(tipX, tipY, br * 0.7 * flicker, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    /** Ice shell with a snowflake etched into it */
+    private drawFrost(cx: number, cy: number, r: number, t: number) {
+        const ctx = this.ctx;
+        const shimmer = 0.85 + Math.sin(t * 1.3 + cx * 0.05) * 0.15;
+
+        this.drawHex(cx, cy, r * 1.12);
+        const ice = ctx.createLinearGradient(cx - r, cy - r, cx + r, cy + r);
+        ice.addColorStop(0, `rgba(225,245,255,${0.55 * shimmer})`);
+        ice.addColorStop(0.5, "rgba(160,215,255,0.28)");
+        ice.addColorStop(1, `rgba(210,240,255,${0.5 * shimmer})`);
+        ctx.fillStyle = ice;
+        ctx.fill();
+        ctx.strokeStyle = "rgba(235,250,255,0.85)";
+        ctx.lineWidth = r * 0.07;
+        ctx.stroke();
+
+        ctx.strokeStyle = "rgba(255,255,255,0.7)";
+        ctx.lineWidth = r * 0.05;
+        ctx.lineCap = "round";
+        ctx.beginPath();
+        for (let i = 0; i < 6; i++) {
+            const a = (i * Math.PI) / 3 + Math.PI / 6;
+            const ex = cx + Math.cos(a) * r * 0.45;
+            const ey = cy + Math.sin(a) * r * 0.45;
+            ctx.moveTo(cx, cy);
+            ctx.lineTo(ex, ey);
+            // Small barbs near the tip
+            const bx = cx + Math.cos(a) * r * 0.3;
+            const by = cy + Math.sin(a) * r * 0.3;
+            for (const side of [-1, 1]) {
+                const ba = a + side * 0.6;
+                ctx.moveTo(bx, by);
+                ctx.lineTo(bx + Math.cos(ba) * r * 0.12, by + Math.sin(ba) * r * 0.12);
+            }
+        }
+        ctx.stroke();
+    }
+
+    /** Gold "×2" coin that pulses gently */
+    private drawMultiplier(cx: number, cy: number, r: number, t: number) {
+        const ctx = this.ctx;
+        const pulse = 1 + Math.sin(t * 3) * 0.06;
+        const mx = cx + r * 0.62;
+        const my = cy + r * 0.6;
+        const mr = r * 0.36 * pulse;
+
+        const coin = ctx.createRadialGradient(mx - mr * 0.3, my - mr * 0.3, mr * 0.1, mx, my, mr);
+        coin.addColorStop(0, "#fff4b8");
+        coin.addColorStop(0.6, "#ffc933");
+        coin.addColorStop(1, "#c88a00");
+        ctx.fillStyle = coin;
+        ctx.shadowColor = "rgba(255,200,50,0.8)";
+        ctx.shadowBlur = r * 0.3;
+        ctx.beginPath();
+        ctx.arc(mx, my, mr, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+
+        ctx.fillStyle = "#5a3a00";
+        ctx.font = `800 ${Math.round(mr * 1.1)}px sans-serif`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText("×2", mx, my + mr * 0.05);
+    }
+
     getThemeColor(colorIdx: CellColor): string {
         if (colorIdx === JOKER_COLOR) {
             // Return a CSS conic gradient for preview dots
@@ -1441,6 +1949,12 @@ export class Renderer {
         return CELL_THEMES[colorIdx % CELL_THEMES.length].core;
     }
 
+    /** Name of the character drawn for a color, for UI text */
+    getCharacterName(colorIdx: CellColor): string {
+        if (colorIdx === JOKER_COLOR) return "joker";
+        return CHARACTER_NAMES[colorIdx % CHARACTER_NAMES.length];
+    }
+
     getCanvas(): HTMLCanvasElement {
         return this.canvas;
     }
@@ -0,0 +1,263 @@
+import {
+    GameEngine,
+    POWER_UPS,
+    VERSUS_PLAYERS,
+    type PowerUpAction,
+    type PowerUpResult,
+    type SpawnedCell,
+    type TurnResult,
+} from "./engine";
+import { getGridSize, type Position, type RuleSet } from "./game";
+import { CLASSIC, getVariant } from "./variants";
+
+/** Version 3 adds power-ups and version 2 the variant; version 1 codes are Classic games */
+export const REPLAY_VERSION = 3;
+
+/** A regular move */
+export interface ReplayTurn {
+    from: Position;
+    to: Position;
+    /** Cells spawned after the move, used to verify playback */
+    spawned: SpawnedCell[];
+}
+
+/** A power-up spent between moves */
+export interface ReplayPowerUp {
+    powerUp: PowerUpAction;
+}
+
+export type ReplayMove = ReplayTurn | ReplayPowerUp;
+
+export interface Replay {
+    version: number;
+    variant: string;
+    seed: number;
+    score: number;
+    /** Hot-seat player count; 1 for single-player games */
+    players: number;
+    moves: ReplayMove[];
+}
+
+/** Compact wire format: positions are flattened to `row * gridSize + col` */
+interface EncodedReplay {
+    v: number;
+    /** Variant id; absent in version 1 */
+    r?: string;
+    s: number;
+    sc: number;
+    /** Player count; absent for single-player games */
+    p?: number;
+    /**
+     * [from, to, [pos, color, pos, color, ...]] per move; a power-up is
+     * [-1, index in `POWER_UPS`, [pos, ...]] with the cells it targets
+     */
+    m: [number, number, number[]][];
+}
+
+function toIndex(pos: Position, size: number): number {
+    return pos.row * size + pos.col;
+}
+
+function fromIndex(idx: number, size: number): Position {
+    return { row: Math.floor(idx / size), col: idx % size };
+}
+
+function powerUpCells(action: PowerUpAction): Position[] {
+    switch (action.type) {
+        case "teleport":
+            return [action.from, action.to];
+        case "shuffle":
+            return [];
+        case "delete":
+            return [action.at];
+        case "swap":
+            return [action.a, action.b];
+    }
+}
+
+/** Rebuild a power-up from its wire form; throws when the cells do not fit its kind */
+function toPowerUpAction(kind: number, cells: Position[]): PowerUpAction {
+    const type = POWER_UPS[kind];
+    const need = (count: number) => {
+        if (cells.length !== count) throw new Error(`Power-up ${type} needs ${count} cells`);
+    };
+    switch (type) {
+        case "teleport":
+            need(2);
+            return { type, from: cells[0], to: cells[1] };
+        case "shuffle":
+            need(0);
+            return { type };
+        case "delete":
+            need(1);
+            return { type, at: cells[0] };
+        case "swap":
+            need(2);
+            return { type, a: cells[0], b: cells[1] };
+        default:
+            throw new Error(`Unknown power-up ${kind}`);
+    }
+}
+
+// ─── Recording ───────────────────────────────────────────────────────────────
+
+export class ReplayRecorder {
+    private readonly seed: number;
+    private readonly variant: string;
+    private readonly players: number;
+    private moves: ReplayMove[] = [];
+
+    constructor(seed: number, rules: RuleSet, players = 1) {
+        this.seed = seed;
+        this.variant = rules.id;
+        this.players = players;
+    }
+
+    record(turn: TurnResult) {
+        this.moves.push({
+            from: turn.path[0],
+            to: turn.path[turn.path.length - 1],
+            spawned: turn.spawned,
+        });
+    }
+
+    recordPowerUp(action: PowerUpAction) {
+        this.moves.push({ powerUp: action });
+    }
+
+    /** Copy of the moves recorded so far, for undo history */
+    snapshot(): ReplayMove[] {
+        return [...this.moves];
+    }
+
+    restore(moves: ReplayMove[]) {
+        this.moves = [...moves];
+    }
+
+    toReplay(score: number): Replay {
+        return {
+            version: REPLAY_VERSION,
+            variant: this.variant,
+            seed: this.seed,
+            score,
+            players: this.players,
+            moves: [...this.moves],
+        };
+    }
+}
+
+// ─── Playback ────────────────────────────────────────────────────────────────
+
+/** Re-simulates a replay move by move on a fresh engine seeded like the original game */
+export class ReplayPlayer {
+    readonly replay: Replay;
+    readonly engine: GameEngine;
+    private index = 0;
+    private desynced = false;
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.engine = new GameEngine(replay.seed, getVariant(replay.variant) ?? CLASSIC, undefined, replay.players);
+    }
+
+    get position(): number {
+        return this.index;
+    }
+
+    get length(): number {
+        return this.replay.moves.length;
+    }
+
+    isFinished(): boolean {
+        return this.desynced || this.index >= this.replay.moves.length;
+    }
+
+    /** True when the engine produced different spawns than were recorded */
+    isDesynced(): boolean {
+        return this.desynced;
+    }
+
+    /** Apply the next recorded move or power-up, or return null at the end of the replay */
+    step(): TurnResult | PowerUpResult | null {
+        if (this.isFinished()) return null;
+        const move = this.replay.moves[this.index];
+        const result =
+            "powerUp" in move ? this.engine.usePowerUp(move.powerUp) : this.engine.applyMove(move.from, move.to);
+        if (!result || ("spawned" in move && "spawned" in result && !sameSpawns(result.spawned, move.spawned))) {
+            this.desynced = true;
+            return null;
+        }
+        this.index++;
+        return result;
+    }
+}
+
+function sameSpawns(a: SpawnedCell[], b: SpawnedCell[]): boolean {
+    if (a.length !== b.length) return false;
+    return a.every(
+        (cell, i) => cell.pos.row === b[i].pos.row && cell.pos.col === b[i].pos.col && cell.color === b[i].color,
+    );
+}
+
+// ─── Serialization ───────────────────────────────────────────────────────────
+
+/** Encode a replay as a short shareable string */
+export function encodeReplay(replay: Replay): string {
+    const size = getGridSize(getVariant(replay.variant) ?? CLASSIC);
+    const encoded: EncodedReplay = {
+        v: REPLAY_VERSION,
+        r: replay.variant,
+        s: replay.seed,
+        sc: replay.score,
+        p: replay.players > 1 ? replay.players : undefined,
+        m: replay.moves.map((move) =>
+            "powerUp" in move
+                ? [
+                      -1,
+                      POWER_UPS.indexOf(move.powerUp.type),
+                      powerUpCells(move.powerUp).map((pos) => toIndex(pos, size)),
+                  ]
+                : [
+                      toIndex(move.from, size),
+                      toIndex(move.to, size),
+                      move.spawned.flatMap((cell) => [toIndex(cell.pos, size), cell.color]),
+                  ],
+        ),
+    };
+    return btoa(JSON.stringify(encoded));
+}
+
+/** Decode a string produced by `encodeReplay`; returns null for malformed input or unknown variants */
+export function decodeReplay(text: string): Replay | null {
+    try {
+        const encoded = JSON.parse(atob(text.trim())) as EncodedReplay;
+        const version = Number(encoded.v);
+        if (!Number.isInteger(version) || version < 1 || version > REPLAY_VERSION || !Array.isArray(encoded.m)) {
+            return null;
+        }
+        const rules = encoded.v === 1 ? CLASSIC : getVariant(String(encoded.r));
+        if (!rules) return null;
+        // Solo games leave the count out; hot-seat games are always versus games
+        const players = encoded.p === undefined ? 1 : Number(encoded.p);
+        if (!Number.isInteger(players) || players < 1 || players > VERSUS_PLAYERS) return null;
+        const size = getGridSize(rules);
+        const moves = encoded.m.map(([from, to, spawns]): ReplayMove => {
+            if (from < 0) return { powerUp: toPowerUpAction(to, spawns.map((idx) => fromIndex(idx, size))) };
+            const spawned: SpawnedCell[] = [];
+            for (let i = 0; i + 1 < spawns.length; i += 2) {
+                spawned.push({ pos: fromIndex(spawns[i], size), color: spawns[i + 1] });
+            }
+            return { from: fromIndex(from, size), to: fromIndex(to, size), spawned };
+        });
+        return {
+            version: REPLAY_VERSION,
+            variant: rules.id,
+            seed: Number(encoded.s) >>> 0,
+            score: Number(encoded.sc) || 0,
+            players,
+            moves,
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,235 @@
+import { createPowerUpInventory, POWER_UPS, type GameState, type PowerUp } from "./engine";
+import { CELL_SPECIALS, getGridSize, posKey, type CellColor, type CellSpecial, type RuleSet } from "./game";
+import { decodeReplay, encodeReplay, type Replay } from "./replay";
+import { getVariant } from "./variants";
+
+/** Bump when the stored layout changes and add a step to `migrate` */
+export const SAVE_VERSION = 8;
+
+const SAVE_KEY = "atomicon_save";
+
+/** In-progress game as restored on boot */
+export interface SavedGame {
+    state: GameState;
+    /** Moves played so far, so the replay continues after a reload */
+    replay: Replay;
+    undoAllowed: boolean;
+    undoUsed: boolean;
+    /** Active play time before the save, for the leaderboard duration */
+    playTimeMs: number;
+    hintsUsed: number;
+    /** The bot made at least one move; such games are not ranked */
+    autoplayUsed: boolean;
+    /** Day of the daily challenge being played; null for a regular game */
+    daily: string | null;
+}
+
+/** On-disk layout, version 1 */
+interface SaveDataV1 {
+    version: 1;
+    savedAt: number;
+    grid: CellColor[][];
+    nextColors: CellColor[];
+    score: number;
+    combo: number;
+    moveCount: number;
+    seed: number;
+    rngState: number;
+    replay: string;
+    undoAllowed: boolean;
+    undoUsed: boolean;
+}
+
+/** Version 2 adds per-game metadata shown on the leaderboard */
+interface SaveDataV2 extends Omit<SaveDataV1, "version"> {
+    version: 2;
+    biggestClear: number;
+    maxCombo: number;
+    playTimeMs: number;
+}
+
+/** Version 3 tracks hints so the per-game limit survives a reload */
+interface SaveDataV3 extends Omit<SaveDataV2, "version"> {
+    version: 3;
+    hintsUsed: number;
+}
+
+/** Version 4 flags games the autoplayer took part in */
+interface SaveDataV4 extends Omit<SaveDataV3, "version"> {
+    version: 4;
+    autoplayUsed: boolean;
+}
+
+/** Version 5 records the variant the game is played with */
+interface SaveDataV5 extends Omit<SaveDataV4, "version"> {
+    version: 5;
+    variant: string;
+}
+
+/** Version 6 marks daily challenge games */
+interface SaveDataV6 extends Omit<SaveDataV5, "version"> {
+    version: 6;
+    daily: string | null;
+}
+
+/** Version 7 keeps special pieces, keyed by "row,col" */
+interface SaveDataV7 extends Omit<SaveDataV6, "version"> {
+    version: 7;
+    specials: Record<string, CellSpecial>;
+}
+
+/** Version 8 keeps the power-up inventory */
+interface SaveDataV8 extends Omit<SaveDataV7, "version"> {
+    version: 8;
+    powerUps: Record<PowerUp, number>;
+}
+
+type SaveData = SaveDataV8;
+
+/** Upgrade older save data to the current layout; returns null for unknown versions */
+function migrate(data: { version?: unknown }): SaveData | null {
+    switch (data.version) {
+        case 1: {
+            const upgraded: SaveDataV2 = {
+                ...(data as SaveDataV1),
+                version: 2,
+                biggestClear: 0,
+                maxCombo: 0,
+                playTimeMs: 0,
+            };
+            return migrate(upgraded);
+        }
+        case 2: {
+            const upgraded: SaveDataV3 = { ...(data as SaveDataV2), version: 3, hintsUsed: 0 };
+            return migrate(upgraded);
+        }
+        case 3: {
+            const upgraded: SaveDataV4 = { ...(data as SaveDataV3), version: 4, autoplayUsed: false };
+            return migrate(upgraded);
+        }
+        case 4: {
+            const upgraded: SaveDataV5 = { ...(data as SaveDataV4), version: 5, variant: "classic" };
+            return migrate(upgraded);
+        }
+        case 5: {
+            const upgraded: SaveDataV6 = { ...(data as SaveDataV5), version: 6, daily: null };
+            return migrate(upgraded);
+        }
+        case 6: {
+            const upgraded: SaveDataV7 = { ...(data as SaveDataV6), version: 7, specials: {} };
+            return migrate(upgraded);
+        }
+        case 7: {
+            const upgraded: SaveDataV8 = { ...(data as SaveDataV7), version: 8, powerUps: createPowerUpInventory() };
+            return migrate(upgraded);
+        }
+        case 8:
+            return data as SaveDataV8;
+        default:
+            return null;
+    }
+}
+
+function isValidSave(data: SaveData, rules: RuleSet): boolean {
+    const size = getGridSize(rules);
+    return (
+        Array.isArray(data.grid) &&
+        data.grid.length === size &&
+        data.grid.every((row) => Array.isArray(row) && row.length === size) &&
+        Array.isArray(data.nextColors) &&
+        [data.score, data.combo, data.moveCount, data.seed, data.rngState, data.biggestClear, data.maxCombo].every(
+            Number.isFinite,
+        )
+    );
+}
+
+export function storeSavedGame(saved: SavedGame) {
+    const { state } = saved;
+    const data: SaveData = {
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        grid: state.grid.map((row) => row.map((cell) => cell.color)),
+        specials: Object.fromEntries(
+            state.grid.flatMap((row, r) =>
+                row.flatMap((cell, c) => (cell.special ? [[posKey({ row: r, col: c }), cell.special]] : [])),
+            ),
+        ),
+        nextColors: state.nextColors,
+        powerUps: state.powerUps,
+        score: state.score,
+        combo: state.combo,
+        moveCount: state.moveCount,
+        biggestClear: state.biggestClear,
+        maxCombo: state.maxCombo,
+        variant: state.variant,
+        seed: state.seed,
+        rngState: state.rngState,
+        replay: encodeReplay(saved.replay),
+        undoAllowed: saved.undoAllowed,
+        undoUsed: saved.undoUsed,
+        playTimeMs: saved.playTimeMs,
+        hintsUsed: saved.hintsUsed,
+        autoplayUsed: saved.autoplayUsed,
+        daily: saved.daily,
+    };
+    localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+}
+
+export function loadSavedGame(): SavedGame | null {
+    const raw = localStorage.getItem(SAVE_KEY);
+    if (!raw) return null;
+    try {
+        const data = migrate(JSON.parse(raw) as { version?: unknown });
+        const rules = data && getVariant(data.variant);
+        if (!data || !rules || !isValidSave(data, rules)) return null;
+        const replay = decodeReplay(data.replay);
+        if (!replay) return null;
+        return {
+            state: {
+                grid: data.grid.map((row, r) =>
+                    row.map((color, c) => {
+                        const special = data.specials?.[posKey({ row: r, col: c })];
+                        return color >= 0 && CELL_SPECIALS.includes(special) ? { color, special } : { color };
+                    }),
+                ),
+                nextColors: data.nextColors,
+                score: data.score,
+                combo: data.combo,
+                moveCount: data.moveCount,
+                biggestClear: data.biggestClear,
+                maxCombo: data.maxCombo,
+                // Hot-seat games are not saved
+                players: [],
+                currentPlayer: 0,
+                powerUps: loadPowerUps(data.powerUps),
+                variant: rules.id,
+                seed: data.seed,
+                rngState: data.rngState,
+                gameOver: false,
+            },
+            replay,
+            undoAllowed: data.undoAllowed !== false,
+            undoUsed: data.undoUsed === true,
+            playTimeMs: Number(data.playTimeMs) || 0,
+            hintsUsed: Number(data.hintsUsed) || 0,
+            autoplayUsed: data.autoplayUsed === true,
+            daily: typeof data.daily === "string" ? data.daily : null,
+        };
+    } catch {
+        return null;
+    }
+}
+
+function loadPowerUps(raw: unknown): Record<PowerUp, number> {
+    const inventory = createPowerUpInventory();
+    if (!raw || typeof raw !== "object") return inventory;
+    for (const powerUp of POWER_UPS) {
+        const count = (raw as Record<string, unknown>)[powerUp];
+        if (typeof count === "number" && Number.isInteger(count) && count > 0) inventory[powerUp] = count;
+    }
+    return inventory;
+}
+
+export function clearSavedGame() {
+    localStorage.removeItem(SAVE_KEY);
+}
@@ -0,0 +1,324 @@
+/*
+ * Headless balance simulation: plays seeded games with a bot and reports
+ * aggregate statistics.
+ *
+ *   pnpm simulate --games 200 --bot greedy --set minMatch=6 --format csv
+ *
+ * Options:
+ *   --games N        number of games (default 50)
+ *   --seed S         first seed; game i uses seed S + i (default 1)
+ *   --bot NAME       greedy | lookahead | montecarlo (default greedy)
+ *   --variant ID     rule set to start from (default classic)
+ *   --layout FILE    board layout JSON replacing the variant's board
+ *   --max-moves N    stop a game after N moves (default 2000)
+ *   --set KEY=VALUE  override a numeric `RuleSet` field; repeatable. The
+ *                    spawn curve takes moves:occupancy:count stages,
+ *                    e.g. spawnCurve=10:0.58:3,25:0.82:4
+ *   --format F       json (summary) | csv (one row per game)
+ */
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { BOT_NAMES, createBot, getBotView, type BotName } from "./bot";
+import { GameEngine } from "./engine";
+import {
+    isBoardFull,
+    JOKER_COLOR,
+    MAX_COLORS,
+    type BoardLayout,
+    type RuleSet,
+    type SpawnStage,
+} from "./game";
+import { parseLayout } from "./layouts";
+import { getVariant, VARIANTS } from "./variants";
+
+type GameOverCause = "board-full" | "no-moves" | "move-limit";
+
+interface GameStats {
+    seed: number;
+    score: number;
+    moves: number;
+    spawned: number;
+    jokersSpawned: number;
+    clears: number;
+    chainClears: number;
+    biggestClear: number;
+    maxCombo: number;
+    /** Clear size → number of clears */
+    clearSizes: Map<number, number>;
+    cause: GameOverCause;
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+/** Numeric `RuleSet` fields that `--set` can change */
+type NumericRule = Exclude<keyof RuleSet, "id" | "name" | "layout" | "spawnCurve">;
+
+interface RuleRange {
+    min: number;
+    max: number;
+    integer: boolean;
+}
+
+const CHANCE: RuleRange = { min: 0, max: 1, integer: false };
+
+/** Accepted values of each numeric field; limits that depend on the board or other fields are checked afterwards */
+const RULE_RANGES: Record<NumericRule, RuleRange> = {
+    numColors: { min: 1, max: MAX_COLORS, integer: true },
+    minMatch: { min: 2, max: Infinity, integer: true },
+    previewSize: { min: 1, max: Infinity, integer: true },
+    initialSpawn: { min: 0, max: Infinity, integer: true },
+    maxSpawn: { min: 1, max: Infinity, integer: true },
+    jokerChanceStart: CHANCE,
+    jokerChanceStep: CHANCE,
+    jokerChanceMax: CHANCE,
+    bombChance: CHANCE,
+    frozenChance: CHANCE,
+    multiplierChance: CHANCE,
+};
+
+const RULE_KEYS = ["spawnCurve", ...Object.keys(RULE_RANGES)];
+
+function isNumericRule(key: string): key is NumericRule {
+    return Object.keys(RULE_RANGES).includes(key);
+}
+
+function inRange(value: number, range: RuleRange): boolean {
+    return (
+        Number.isFinite(value) &&
+        value >= range.min &&
+        value <= range.max &&
+        (!range.integer || Number.isInteger(value))
+    );
+}
+
+function describeRange(range: RuleRange): string {
+    const kind = range.integer ? "an integer" : "a number";
+    return range.max === Infinity ? `${kind} >= ${range.min}` : `${kind} from ${range.min} to ${range.max}`;
+}
+
+function parseSpawnCurve(raw: string): SpawnStage[] | null {
+    const stages = raw.split(",").map((stage) => {
+        const [maxMoves, maxOccupancy, count] = stage.split(":").map((part) => (part === "" ? NaN : Number(part)));
+        return { maxMoves, maxOccupancy, count };
+    });
+    const valid = stages.every(
+        (s) =>
+            inRange(s.maxMoves, { min: 0, max: Infinity, integer: true }) &&
+            inRange(s.maxOccupancy, CHANCE) &&
+            inRange(s.count, { min: 1, max: Infinity, integer: true }),
+    );
+    return valid ? stages : null;
+}
+
+/** Apply `--set` overrides to a copy of `base`, rejecting values the engine cannot play with */
+function applyOverrides(base: RuleSet, items: string[]): RuleSet {
+    const rules: RuleSet = { ...base };
+    for (const item of items) {
+        const [key, raw = ""] = item.split("=");
+        if (key === "spawnCurve") {
+            const curve = parseSpawnCurve(raw);
+            if (!curve) fail(`Invalid value for spawnCurve: "${raw}" (expected moves:occupancy:count stages)`);
+            rules.spawnCurve = curve;
+        } else if (isNumericRule(key)) {
+            const value = raw.trim() === "" ? NaN : Number(raw);
+            const range = RULE_RANGES[key];
+            if (!inRange(value, range)) fail(`Invalid value for ${key}: "${raw}" (expected ${describeRange(range)})`);
+            rules[key] = value;
+        } else {
+            fail(`Unknown parameter "${key}". Known: ${RULE_KEYS.join(", ")}`);
+        }
+    }
+
+    const cells = rules.layout.cells.length;
+    if (rules.minMatch > cells) fail(`minMatch must be at most ${cells}, the board's cell count`);
+    if (rules.initialSpawn >= cells) fail(`initialSpawn must be below ${cells}, the board's cell count`);
+    if (rules.previewSize < rules.maxSpawn) fail("previewSize must be at least maxSpawn");
+    if (rules.spawnCurve.some((stage) => stage.count > rules.previewSize)) {
+        fail("spawnCurve counts must be at most previewSize");
+    }
+    if (rules.bombChance + rules.frozenChance + rules.multiplierChance > 1) {
+        fail("bombChance, frozenChance and multiplierChance must add up to at most 1");
+    }
+    return rules;
+}
+
+function loadLayout(file: string): BoardLayout {
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(file, "utf8"));
+    } catch (err) {
+        fail(`Cannot read layout ${file}: ${(err as Error).message}`);
+    }
+    return parseLayout(data) ?? fail(`Invalid layout in ${file}`);
+}
+
+function playGame(seed: number, rules: RuleSet, botName: BotName, maxMoves: number): GameStats {
+    const engine = new GameEngine(seed, rules);
+    const bot = createBot(botName);
+    const stats: GameStats = {
+        seed,
+        score: 0,
+        moves: 0,
+        spawned: 0,
+        jokersSpawned: 0,
+        clears: 0,
+        chainClears: 0,
+        biggestClear: 0,
+        maxCombo: 0,
+        clearSizes: new Map(),
+        cause: "move-limit",
+    };
+
+    while (!engine.state.gameOver && engine.state.moveCount < maxMoves) {
+        const move = bot.chooseMove(getBotView(engine));
+        const turn = move && engine.applyMove(move.from, move.to);
+        if (!turn) break;
+        stats.spawned += turn.spawned.length;
+        stats.jokersSpawned += turn.spawned.filter((cell) => cell.color === JOKER_COLOR).length;
+        if (turn.clear) {
+            const size = turn.clear.removed.size;
+            stats.clears++;
+            if (turn.clear.chain) stats.chainClears++;
+            stats.clearSizes.set(size, (stats.clearSizes.get(size) ?? 0) + 1);
+        }
+    }
+
+    const state = engine.state;
+    stats.score = state.score;
+    stats.moves = state.moveCount;
+    stats.biggestClear = state.biggestClear;
+    stats.maxCombo = state.maxCombo;
+    if (state.gameOver) stats.cause = isBoardFull(state.grid, rules) ? "board-full" : "no-moves";
+    return stats;
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function summarize(games: GameStats[], bot: BotName, rules: RuleSet) {
+    const scores = games.map((g) => g.score);
+    const histogram: Record<number, number> = {};
+    const causes: Record<GameOverCause, number> = { "board-full": 0, "no-moves": 0, "move-limit": 0 };
+    let spawned = 0;
+    let jokers = 0;
+    for (const game of games) {
+        spawned += game.spawned;
+        jokers += game.jokersSpawned;
+        causes[game.cause]++;
+        for (const [size, count] of game.clearSizes) histogram[size] = (histogram[size] ?? 0) + count;
+    }
+    return {
+        bot,
+        games: games.length,
+        rules: { ...rules, layout: rules.layout.id },
+        score: {
+            average: average(scores),
+            median: median(scores),
+            min: Math.min(...scores),
+            max: Math.max(...scores),
+        },
+        gameLength: {
+            average: average(games.map((g) => g.moves)),
+            median: median(games.map((g) => g.moves)),
+        },
+        jokerFrequency: spawned > 0 ? jokers / spawned : 0,
+        clearSizeHistogram: histogram,
+        chainClearShare: average(games.map((g) => (g.clears > 0 ? g.chainClears / g.clears : 0))),
+        gameOverCauses: causes,
+    };
+}
+
+function toCsv(games: GameStats[]): string {
+    const sizes = [...new Set(games.flatMap((g) => [...g.clearSizes.keys()]))].sort((a, b) => a - b);
+    const header = [
+        "seed",
+        "score",
+        "moves",
+        "spawned",
+        "jokers_spawned",
+        "clears",
+        "chain_clears",
+        "biggest_clear",
+        "max_combo",
+        "cause",
+        ...sizes.map((size) => `clears_${size}`),
+    ];
+    const rows = games.map((g) =>
+        [
+            g.seed,
+            g.score,
+            g.moves,
+            g.spawned,
+            g.jokersSpawned,
+            g.clears,
+            g.chainClears,
+            g.biggestClear,
+            g.maxCombo,
+            g.cause,
+            ...sizes.map((size) => g.clearSizes.get(size) ?? 0),
+        ].join(","),
+    );
+    return [header.join(","), ...rows].join("\n");
+}
+
+function main() {
+    const args = process.argv.slice(2);
+    // `npm run simulate -- ...` style invocations pass the separator through
+    if (args[0] === "--") args.shift();
+    const { values } = parseArgs({
+        args,
+        options: {
+            games: { type: "string", default: "50" },
+            seed: { type: "string", default: "1" },
+            bot: { type: "string", default: "greedy" },
+            variant: { type: "string", default: "classic" },
+            layout: { type: "string" },
+            "max-moves": { type: "string", default: "2000" },
+            set: { type: "string", multiple: true, default: [] },
+            format: { type: "string", default: "json" },
+        },
+    });
+
+    const count = Number(values.games);
+    const firstSeed = Number(values.seed);
+    const maxMoves = Number(values["max-moves"]);
+    const bot = values.bot as BotName;
+    if (!Number.isInteger(count) || count < 1) fail(`Invalid --games: ${values.games}`);
+    if (!Number.isInteger(firstSeed)) fail(`Invalid --seed: ${values.seed}`);
+    if (!Number.isInteger(maxMoves) || maxMoves < 1) fail(`Invalid --max-moves: ${values["max-moves"]}`);
+    if (!BOT_NAMES.includes(bot)) fail(`Unknown bot "${values.bot}". Known: ${BOT_NAMES.join(", ")}`);
+    if (values.format !== "json" && values.format !== "csv") fail(`Unknown format "${values.format}"`);
+    let base = getVariant(values.variant);
+    if (!base) {
+        fail(`Unknown variant "${values.variant}". Known: ${VARIANTS.map((v) => v.rules.id).join(", ")}`);
+    }
+    if (values.layout) base = { ...base, layout: loadLayout(values.layout) };
+    const rules = applyOverrides(base, values.set);
+
+    const games: GameStats[] = [];
+    for (let i = 0; i < count; i++) {
+        games.push(playGame(firstSeed + i, rules, bot, maxMoves));
+        // Progress goes to stderr so stdout stays machine-readable
+        process.stderr.write(`\r${i + 1}/${count}`);
+    }
+    process.stderr.write("\n");
+
+    if (values.format === "csv") {
+        console.log(toCsv(games));
+    } else {
+        console.log(JSON.stringify(summarize(games, bot, rules), null, 2));
+    }
+}
+
+main();
@@ -0,0 +1,184 @@
+import type { ClearResult } from "./engine";
+import type { EventBus, GameEvents } from "./events";
+import { JOKER_COLOR, type Grid } from "./game";
+
+/** Finished games kept for the score chart and the median */
+export const STATS_HISTORY_SIZE = 200;
+
+const STATS_KEY = "atomicon_stats";
+
+export interface GameRecord {
+    /** Finish time (epoch ms) */
+    date: number;
+    variant: string;
+    score: number;
+    moves: number;
+    biggestClear: number;
+    maxCombo: number;
+}
+
+export interface LifetimeStats {
+    gamesPlayed: number;
+    totalScore: number;
+    /** Most moves in a single game */
+    longestGame: number;
+    largestClear: number;
+    highestCombo: number;
+    clears: number;
+    /** Jokers removed as part of a clear */
+    jokersUsed: number;
+    /** Clear size → number of clears */
+    clearSizes: Record<number, number>;
+    /** Color index → number of clears that included it */
+    colorClears: Record<number, number>;
+    /** Newest game last, capped at `STATS_HISTORY_SIZE` */
+    history: GameRecord[];
+}
+
+/** One clear as seen by the player; bomb blasts count towards its size */
+export interface ClearRecord {
+    size: number;
+    combo: number;
+    jokers: number;
+    /** Distinct colors in the clear, jokers excluded */
+    colors: number[];
+}
+
+function emptyStats(): LifetimeStats {
+    return {
+        gamesPlayed: 0,
+        totalScore: 0,
+        longestGame: 0,
+        largestClear: 0,
+        highestCombo: 0,
+        clears: 0,
+        jokersUsed: 0,
+        clearSizes: {},
+        colorClears: {},
+        history: [],
+    };
+}
+
+/** Keep only non-negative integer keys with positive counts */
+function toCounts(raw: unknown): Record<number, number> {
+    const counts: Record<number, number> = {};
+    if (!raw || typeof raw !== "object") return counts;
+    for (const [key, value] of Object.entries(raw)) {
+        const count = Number(value);
+        if (/^\d+$/.test(key) && Number.isFinite(count) && count > 0) counts[Number(key)] = count;
+    }
+    return counts;
+}
+
+function toRecord(item: unknown): GameRecord | null {
+    if (!item || typeof item !== "object") return null;
+    const raw = item as Record<string, unknown>;
+    const score = Number(raw.score);
+    if (!Number.isFinite(score) || score < 0) return null;
+    return {
+        date: Number(raw.date) || 0,
+        variant: typeof raw.variant === "string" ? raw.variant : "classic",
+        score,
+        moves: Number(raw.moves) || 0,
+        biggestClear: Number(raw.biggestClear) || 0,
+        maxCombo: Number(raw.maxCombo) || 0,
+    };
+}
+
+export function getLifetimeStats(): LifetimeStats {
+    const stats = emptyStats();
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STATS_KEY) ?? "{}") as unknown;
+        if (!parsed || typeof parsed !== "object") return stats;
+        const raw = parsed as Record<string, unknown>;
+        for (const key of [
+            "gamesPlayed",
+            "totalScore",
+            "longestGame",
+            "largestClear",
+            "highestCombo",
+            "clears",
+            "jokersUsed",
+        ] as const) {
+            stats[key] = Math.max(0, Number(raw[key]) || 0);
+        }
+        stats.clearSizes = toCounts(raw.clearSizes);
+        stats.colorClears = toCounts(raw.colorClears);
+        if (Array.isArray(raw.history)) {
+            stats.history = raw.history.map(toRecord).filter((record): record is GameRecord => record !== null);
+        }
+        return stats;
+    } catch {
+        return stats;
+    }
+}
+
+function storeLifetimeStats(stats: LifetimeStats) {
+    stats.history = stats.history.slice(-STATS_HISTORY_SIZE);
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+}
+
+/** Sum up a clear from the board it was made on, before the cells are removed */
+export function describeClear(clear: ClearResult, grid: Grid): ClearRecord {
+    let jokers = 0;
+    const colors = new Set<number>();
+    for (const key of clear.removed) {
+        const [row, col] = key.split(",").map(Number);
+        const color = grid[row][col].color;
+        if (color === JOKER_COLOR) jokers++;
+        else if (color >= 0) colors.add(color);
+    }
+    return { size: clear.removed.size, combo: clear.combo, jokers, colors: [...colors] };
+}
+
+/** Add a finished game together with the clears made in it */
+export function recordGame(record: GameRecord, clears: ClearRecord[]) {
+    const stats = getLifetimeStats();
+    for (const clear of clears) {
+        stats.clears++;
+        stats.jokersUsed += clear.jokers;
+        stats.largestClear = Math.max(stats.largestClear, clear.size);
+        stats.highestCombo = Math.max(stats.highestCombo, clear.combo);
+        stats.clearSizes[clear.size] = (stats.clearSizes[clear.size] ?? 0) + 1;
+        for (const color of clear.colors) stats.colorClears[color] = (stats.colorClears[color] ?? 0) + 1;
+    }
+    stats.gamesPlayed++;
+    stats.totalScore += record.score;
+    stats.longestGame = Math.max(stats.longestGame, record.moves);
+    stats.largestClear = Math.max(stats.largestClear, record.biggestClear);
+    stats.highestCombo = Math.max(stats.highestCombo, record.maxCombo);
+    stats.history.push(record);
+    storeLifetimeStats(stats);
+}
+
+/**
+ * Record finished games while `isTracked` says the live game counts. A game's
+ * clears are held until it ends and stored with it, so clears of abandoned or
+ * untracked games never count; a game resumed after a reload only brings the
+ * clears made since.
+ */
+export function subscribeStats(events: EventBus<GameEvents>, isTracked: () => boolean) {
+    let clears: ClearRecord[] = [];
+    events.on("gameStarted", () => (clears = []));
+    events.on("cleared", ({ clear, grid }) => {
+        if (isTracked()) clears.push(describeClear(clear, grid));
+    });
+    events.on("gameOver", ({ rules, score, moves, biggestClear, maxCombo }) => {
+        if (isTracked()) {
+            recordGame({ date: Date.now(), variant: rules.id, score, moves, biggestClear, maxCombo }, clears);
+        }
+        clears = [];
+    });
+}
+
+export function averageScore(stats: LifetimeStats): number {
+    return stats.gamesPlayed > 0 ? stats.totalScore / stats.gamesPlayed : 0;
+}
+
+/** Median over the kept history; older games only count towards the totals */
+export function medianScore(stats: LifetimeStats): number {
+    const sorted = stats.history.map((record) => record.score).sort((a, b) => a - b);
+    if (sorted.length === 0) return 0;
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,51 @@
+/** Maps linear progress 0..1 to eased progress 0..1 */
+export type Easing = (t: number) => number;
+
+export const Easings = {
+    linear: (t: number) => t,
+    easeInQuad: (t: number) => t * t,
+    easeOutQuad: (t: number) => t * (2 - t),
+    easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+    easeOutCubic: (t: number) => 1 - (1 - t) ** 3,
+} satisfies Record<string, Easing>;
+
+export interface TweenOptions {
+    /** Length in ms at speed 1 */
+    duration: number;
+    easing?: Easing;
+    /** Called every update with the eased progress, ending with exactly 1 */
+    onUpdate: (value: number) => void;
+    onComplete?: () => void;
+}
+
+interface Tween extends TweenOptions {
+    elapsed: number;
+}
+
+/** Drives duration-based tweens from real elapsed time, so they run alike at any frame rate */
+export class TweenScheduler {
+    private tweens: Tween[] = [];
+    /** Multiplier on elapsed time; Infinity finishes every tween on its next update */
+    speed = 1;
+
+    add(options: TweenOptions) {
+        this.tweens.push({ ...options, elapsed: 0 });
+    }
+
+    /** Advance by `dt` ms; returns whether any tween completed */
+    update(dt: number): boolean {
+        let completed = false;
+        // Copy so callbacks may add tweens; those start on the next update
+        for (const tween of [...this.tweens]) {
+            const instant = !Number.isFinite(this.speed);
+            if (!instant) tween.elapsed += dt * this.speed;
+            const t = !instant && tween.duration > 0 ? Math.min(1, tween.elapsed / tween.duration) : 1;
+            tween.onUpdate((tween.easing ?? Easings.linear)(t));
+            if (t < 1) continue;
+            this.tweens.splice(this.tweens.indexOf(tween), 1);
+            tween.onComplete?.();
+            completed = true;
+        }
+        return completed;
+    }
+}
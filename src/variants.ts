@@ -0,0 +1,110 @@
+import type { RuleSet } from "./game";
+import { BASTIONS_LAYOUT, DONUT_LAYOUT, hexLayout, TWIN_HOLES_LAYOUT } from "./layouts";
+
+/** The original game: radius-4 board with a centre hole, 7 colors, groups of 5 */
+export const CLASSIC: RuleSet = {
+    id: "classic",
+    name: "Classic",
+    layout: hexLayout("hex4", "Hexagon", 4, true),
+    numColors: 7,
+    minMatch: 5,
+    previewSize: 5,
+    initialSpawn: 6,
+    spawnCurve: [
+        { maxMoves: 10, maxOccupancy: 0.58, count: 3 },
+        { maxMoves: 25, maxOccupancy: 0.82, count: 4 },
+    ],
+    maxSpawn: 5,
+    jokerChanceStart: 0.01,
+    jokerChanceStep: 0.0006,
+    jokerChanceMax: 0.05,
+    bombChance: 0,
+    frozenChance: 0,
+    multiplierChance: 0,
+};
+
+export interface Variant {
+    rules: RuleSet;
+    description: string;
+}
+
+export const VARIANTS: readonly Variant[] = [
+    {
+        rules: CLASSIC,
+        description: "The original board",
+    },
+    {
+        rules: {
+            ...CLASSIC,
+            id: "compact",
+            name: "Compact",
+            layout: hexLayout("hex3", "Small hexagon", 3, true),
+            numColors: 5,
+            minMatch: 4,
+            previewSize: 3,
+            initialSpawn: 4,
+            spawnCurve: [
+                { maxMoves: 10, maxOccupancy: 0.58, count: 2 },
+                { maxMoves: 25, maxOccupancy: 0.82, count: 3 },
+            ],
+            maxSpawn: 3,
+        },
+        description: "Small board, 5 colors, groups of 4",
+    },
+    {
+        rules: {
+            ...CLASSIC,
+            id: "grand",
+            name: "Grand",
+            layout: hexLayout("hex5", "Large hexagon", 5, false),
+            minMatch: 6,
+            previewSize: 6,
+            initialSpawn: 9,
+            spawnCurve: [
+                { maxMoves: 10, maxOccupancy: 0.58, count: 4 },
+                { maxMoves: 25, maxOccupancy: 0.82, count: 5 },
+            ],
+            maxSpawn: 6,
+        },
+        description: "Large board without a hole, groups of 6",
+    },
+    {
+        rules: {
+            ...CLASSIC,
+            id: "wild",
+            name: "Wild",
+            jokerChanceStart: 0.05,
+            jokerChanceStep: 0.001,
+            jokerChanceMax: 0.12,
+        },
+        description: "Classic rules with far more jokers",
+    },
+    {
+        rules: {
+            ...CLASSIC,
+            id: "specials",
+            name: "Specials",
+            bombChance: 0.03,
+            frozenChance: 0.04,
+            multiplierChance: 0.03,
+        },
+        description: "Bombs, frozen cells and score multipliers spawn",
+    },
+    {
+        rules: { ...CLASSIC, id: "donut", name: "Donut", layout: DONUT_LAYOUT },
+        description: "A walled core blocks the middle of the board",
+    },
+    {
+        rules: { ...CLASSIC, id: "twin-holes", name: "Twin holes", layout: TWIN_HOLES_LAYOUT },
+        description: "Two large holes split the board",
+    },
+    {
+        rules: { ...CLASSIC, id: "bastions", name: "Bastions", layout: BASTIONS_LAYOUT },
+        description: "Six walls scattered around the centre",
+    },
+];
+
+/** Rule set for a stored variant id; unknown ids give null */
+export function getVariant(id: string): RuleSet | null {
+    return VARIANTS.find((variant) => variant.rules.id === id)?.rules ?? null;
+}